@@ -4,6 +4,8 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/home";
+import Admin from "@/pages/admin";
+import QuotePage from "@/pages/quote";
 import NotFound from "@/pages/not-found";
 import { useEffect } from "react";
 
@@ -11,6 +13,8 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/admin" component={Admin} />
+      <Route path="/quote/:id" component={QuotePage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { Box } from "lucide-react";
+import { adminRequest } from "@/lib/admin";
+
+interface AdminThumbnailProps {
+  itemId: string; // order item the model belongs to
+  className?: string;
+}
+
+// Thumbnails sit behind the admin token, so they are fetched rather than
+// linked directly from an <img>
+export default function AdminThumbnail({ itemId, className = "" }: AdminThumbnailProps) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    adminRequest("GET", `/api/admin/order-items/${itemId}/thumbnail`)
+      .then((response) => response.blob())
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => setUrl(null));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [itemId]);
+
+  if (!url) {
+    return (
+      <div className={`bg-dark-accent rounded flex items-center justify-center ${className}`}>
+        <Box className="h-6 w-6 text-text-secondary" />
+      </div>
+    );
+  }
+  return <img src={url} alt="Model preview" className={`rounded ${className}`} />;
+}
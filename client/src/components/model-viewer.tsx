@@ -1,22 +1,246 @@
-import { useRef, useEffect } from "react";
-import { Box } from "lucide-react";
+import { useRef, useEffect, useState } from "react";
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { Box, AlertTriangle } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { disposeObject, loadModel, type LoadedModel } from "@/lib/model-loader";
+import type { MeshAnalysis, ModelDimensions } from "@shared/analysis";
+import { PRINTER } from "@shared/printer";
 
 interface ModelViewerProps {
   file?: File;
+  // Millimetres per file unit times the customer's scale
+  scale?: number;
+  // Server analysis of the same file, for the overlays
+  analysis?: MeshAnalysis;
   className?: string;
 }
 
-export default function ModelViewer({ file, className = "" }: ModelViewerProps) {
+type RenderMode = "solid" | "wireframe";
+type Overlay = "overhangs" | "edges" | "orientation";
+
+interface ViewerScene {
+  renderer: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  controls: OrbitControls;
+  // Holds the model; scaled and moved onto the centre of the plate
+  holder: THREE.Group;
+}
+
+const MODEL_COLOR = 0x00b8d4;
+const PLATE_COLOR = 0x1e2328;
+const OPEN_EDGE_COLOR = 0xff5252;
+const NON_MANIFOLD_EDGE_COLOR = 0xffab40;
+// Faces this close to the bed rest on it and need no support
+const BED_CONTACT_TOLERANCE = 0.1; // mm
+// Faces within this many degrees of the overhang limit are shaded as borderline
+const BORDERLINE_RANGE = 10; // degrees
+
+export default function ModelViewer({ file, scale = 1, analysis, className = "" }: ModelViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const viewerRef = useRef<ViewerScene | null>(null);
+  const [model, setModel] = useState<LoadedModel | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RenderMode>("solid");
+  const [size, setSize] = useState<ModelDimensions | null>(null);
+  const [overlays, setOverlays] = useState<Overlay[]>([]);
+  const showOrientation = overlays.includes("orientation") && !!analysis;
+  const showOverhangs = overlays.includes("overhangs") && !!analysis;
+  const showEdges = overlays.includes("edges") && !!analysis;
+  const hasFile = Boolean(file);
 
+  // Scene, camera and build plate live as long as the viewer is mounted
   useEffect(() => {
-    if (file && containerRef.current) {
-      // TODO: Implement Three.js 3D model viewer
-      // This would load and display STL, OBJ, or 3MF files
-      console.log("Loading 3D model:", file.name);
-    }
+    const container = containerRef.current;
+    if (!container) return;
+
+    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    renderer.setPixelRatio(window.devicePixelRatio);
+    renderer.setSize(container.clientWidth, container.clientHeight);
+    container.appendChild(renderer.domElement);
+
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(0x2e3338);
+    scene.add(new THREE.HemisphereLight(0xffffff, 0x444444, 1.5));
+    const sun = new THREE.DirectionalLight(0xffffff, 1.5);
+    sun.position.set(1, -1, 2);
+    scene.add(sun);
+    scene.add(buildPlate());
+
+    // The printer's Z axis points up
+    const camera = new THREE.PerspectiveCamera(40, container.clientWidth / container.clientHeight, 1, 5000);
+    camera.up.set(0, 0, 1);
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.enableDamping = true;
+
+    const holder = new THREE.Group();
+    scene.add(holder);
+
+    const { x, y, z } = PRINTER.buildVolume;
+    frameBox(camera, controls, new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(x, y, z / 3)));
+
+    let frame = 0;
+    const render = () => {
+      frame = requestAnimationFrame(render);
+      controls.update();
+      renderer.render(scene, camera);
+    };
+    render();
+
+    const resize = new ResizeObserver(() => {
+      camera.aspect = container.clientWidth / container.clientHeight;
+      camera.updateProjectionMatrix();
+      renderer.setSize(container.clientWidth, container.clientHeight);
+    });
+    resize.observe(container);
+
+    viewerRef.current = { renderer, scene, camera, controls, holder };
+    return () => {
+      cancelAnimationFrame(frame);
+      resize.disconnect();
+      controls.dispose();
+      disposeObject(scene);
+      renderer.dispose();
+      container.removeChild(renderer.domElement);
+      viewerRef.current = null;
+    };
+  }, [hasFile]);
+
+  // Parse the file whenever a new one is picked
+  useEffect(() => {
+    setModel(null);
+    setLoadError(null);
+    if (!file) return;
+
+    let cancelled = false;
+    loadModel(file)
+      .then((loaded) => {
+        if (cancelled) {
+          disposeObject(loaded.object);
+          return;
+        }
+        // Colours from OBJ and 3MF files are replaced by our own shading, and
+        // faces get their own vertices so they can be coloured individually
+        if (loaded.kind === "mesh") {
+          const material = new THREE.MeshStandardMaterial({ color: MODEL_COLOR, roughness: 0.6, metalness: 0.1 });
+          loaded.object.traverse((child) => {
+            if (!(child instanceof THREE.Mesh)) return;
+            const previous: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+            previous.forEach((old) => old.dispose());
+            child.material = material;
+            if (child.geometry.index) {
+              const indexed = child.geometry;
+              child.geometry = indexed.toNonIndexed();
+              indexed.dispose();
+            }
+          });
+        }
+        setModel(loaded);
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setLoadError(error.message || "Could not read this file");
+      });
+    return () => {
+      cancelled = true;
+    };
   }, [file]);
 
+  // Show the model, scaled to millimetres and resting on the plate centre,
+  // turned into the recommended print orientation when asked
+  const rotation = analysis?.orientation.rotation;
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer || !model) return;
+    const { holder } = viewer;
+    holder.add(model.object);
+
+    if (model.kind === "mesh") {
+      holder.scale.setScalar(scale);
+      holder.quaternion.identity();
+      if (showOrientation && rotation) {
+        const [a, b, c, d, e, f, g, h, i] = rotation;
+        holder.quaternion.setFromRotationMatrix(new THREE.Matrix4().set(a, b, c, 0, d, e, f, 0, g, h, i, 0, 0, 0, 0, 1));
+      }
+      holder.position.set(0, 0, 0);
+      holder.updateMatrixWorld(true);
+      const box = new THREE.Box3().setFromObject(model.object);
+      const centre = box.getCenter(new THREE.Vector3());
+      holder.position.set(PRINTER.buildVolume.x / 2 - centre.x, PRINTER.buildVolume.y / 2 - centre.y, -box.min.z);
+    } else {
+      // Tool paths are already in bed coordinates
+      holder.scale.setScalar(1);
+      holder.quaternion.identity();
+      holder.position.set(0, 0, 0);
+    }
+    holder.updateMatrixWorld(true);
+
+    const box = new THREE.Box3().setFromObject(model.object);
+    const extent = box.getSize(new THREE.Vector3());
+    setSize({ x: round(extent.x), y: round(extent.y), z: round(extent.z) });
+    frameBox(viewer.camera, viewer.controls, box);
+
+    return () => {
+      holder.remove(model.object);
+    };
+  }, [model, scale, showOrientation, rotation]);
+
+  // Heatmap of how far each face leans past the overhang limit, in the pose
+  // currently shown
+  const overhangAngle = analysis?.supports.overhangAngle;
+  useEffect(() => {
+    if (!model || model.kind !== "mesh") return;
+    model.object.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const material = child.material as THREE.MeshStandardMaterial;
+      if (!showOverhangs || overhangAngle === undefined) {
+        material.vertexColors = false;
+        material.color.set(MODEL_COLOR);
+      } else {
+        child.geometry.setAttribute("color", overhangColors(child, overhangAngle));
+        material.vertexColors = true;
+        material.color.set(0xffffff);
+      }
+      material.needsUpdate = true;
+    });
+  }, [model, scale, showOrientation, rotation, showOverhangs, overhangAngle]);
+
+  // Open and non-manifold edges from the analysis, drawn through the model
+  const problemEdges = analysis?.problemEdges;
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer || !model || model.kind !== "mesh" || !showEdges || !problemEdges) return;
+    const lines = new THREE.Group();
+    for (const [segments, color] of [
+      [problemEdges.open, OPEN_EDGE_COLOR],
+      [problemEdges.nonManifold, NON_MANIFOLD_EDGE_COLOR],
+    ] as const) {
+      if (segments.length === 0) continue;
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute("position", new THREE.Float32BufferAttribute(segments, 3));
+      const edges = new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ color, depthTest: false }));
+      edges.renderOrder = 1;
+      lines.add(edges);
+    }
+    viewer.holder.add(lines);
+    return () => {
+      viewer.holder.remove(lines);
+      disposeObject(lines);
+    };
+  }, [model, showEdges, problemEdges]);
+
+  // Free the previous model's buffers once it is replaced
+  useEffect(() => {
+    if (!model) return;
+    return () => disposeObject(model.object);
+  }, [model]);
+
+  useEffect(() => {
+    model?.object.traverse((child) => {
+      if (child instanceof THREE.Mesh) child.material.wireframe = mode === "wireframe";
+    });
+  }, [mode, model]);
+
   if (!file) {
     return (
       <div className={`aspect-square bg-dark-accent rounded-lg flex items-center justify-center ${className}`}>
@@ -29,15 +253,163 @@ export default function ModelViewer({ file, className = "" }: ModelViewerProps)
   }
 
   return (
-    <div 
-      ref={containerRef}
-      className={`aspect-square bg-dark-accent rounded-lg flex items-center justify-center model-viewer ${className}`}
-    >
-      <div className="text-center">
-        <Box className="h-12 w-12 text-cyan-primary mb-2 mx-auto animate-spin" />
-        <p className="text-cyan-primary font-medium">{file.name}</p>
-        <p className="text-text-secondary text-sm mt-1">3D Model Preview</p>
-      </div>
+    <div className={`relative aspect-square bg-dark-accent rounded-lg overflow-hidden model-viewer ${className}`}>
+      <div ref={containerRef} className="absolute inset-0" />
+
+      {!model && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div className="text-center">
+            {loadError ? (
+              <>
+                <AlertTriangle className="h-12 w-12 text-yellow-400 mb-2 mx-auto" />
+                <p className="text-yellow-400 font-medium">Preview unavailable</p>
+                <p className="text-text-secondary text-sm mt-1">{loadError}</p>
+              </>
+            ) : (
+              <>
+                <Box className="h-12 w-12 text-cyan-primary mb-2 mx-auto animate-spin" />
+                <p className="text-cyan-primary font-medium">{file.name}</p>
+                <p className="text-text-secondary text-sm mt-1">Loading preview...</p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {model && size && (
+        <div className="absolute left-3 bottom-3 rounded bg-dark-bg/80 px-2 py-1 text-xs pointer-events-none">
+          <span className="text-red-400">X</span> {size.x} × <span className="text-green-400">Y</span> {size.y} ×{" "}
+          <span className="text-cyan-primary">Z</span> {size.z} mm
+        </div>
+      )}
+
+      {model?.kind === "mesh" && (
+        <div className="absolute right-3 top-3 flex flex-col items-end gap-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as RenderMode)}
+            className="rounded bg-dark-bg/80 p-1"
+          >
+            <ToggleGroupItem value="solid" className="text-xs">Solid</ToggleGroupItem>
+            <ToggleGroupItem value="wireframe" className="text-xs">Wireframe</ToggleGroupItem>
+          </ToggleGroup>
+          {analysis && (
+            <ToggleGroup
+              type="multiple"
+              size="sm"
+              value={overlays}
+              onValueChange={(value) => setOverlays(value as Overlay[])}
+              className="rounded bg-dark-bg/80 p-1"
+            >
+              <ToggleGroupItem value="overhangs" className="text-xs">Overhangs</ToggleGroupItem>
+              {(analysis.problemEdges.open.length > 0 || analysis.problemEdges.nonManifold.length > 0) && (
+                <ToggleGroupItem value="edges" className="text-xs">Problem edges</ToggleGroupItem>
+              )}
+              <ToggleGroupItem value="orientation" className="text-xs">Print orientation</ToggleGroupItem>
+            </ToggleGroup>
+          )}
+        </div>
+      )}
+
+      {model && (showOverhangs || showEdges) && (
+        <div className="absolute right-3 bottom-3 rounded bg-dark-bg/80 px-2 py-1 text-xs space-y-1 pointer-events-none">
+          {showOverhangs && (
+            <>
+              <p><span className="inline-block w-2 h-2 mr-1 rounded-sm bg-red-500" />Needs support (over {overhangAngle}°)</p>
+              <p><span className="inline-block w-2 h-2 mr-1 rounded-sm bg-yellow-400" />Borderline</p>
+            </>
+          )}
+          {showEdges && (
+            <>
+              <p><span className="inline-block w-2 h-2 mr-1 rounded-sm bg-red-400" />Open edges (holes)</p>
+              <p><span className="inline-block w-2 h-2 mr-1 rounded-sm bg-orange-400" />Non-manifold edges</p>
+              {analysis?.problemEdges.truncated && <p className="text-text-secondary">Showing the first few thousand</p>}
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
+
+// Per-vertex colours for a non-indexed mesh: faces that lean past the limit
+// turn red, those just short of it yellow, the rest keep the model colour.
+// Mirrors the server's support estimate, including faces resting on the bed.
+function overhangColors(mesh: THREE.Mesh, overhangAngle: number): THREE.Float32BufferAttribute {
+  const positions = mesh.geometry.getAttribute("position");
+  const colors = new Float32Array(positions.count * 3);
+  const base = new THREE.Color(MODEL_COLOR);
+  const borderline = new THREE.Color(0xfacc15);
+  const overhang = new THREE.Color(0xef4444);
+  const corners = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const normal = new THREE.Vector3();
+  const edge = new THREE.Vector3();
+  const color = new THREE.Color();
+
+  for (let i = 0; i + 2 < positions.count; i += 3) {
+    corners.forEach((corner, k) => corner.fromBufferAttribute(positions, i + k).applyMatrix4(mesh.matrixWorld));
+    normal.subVectors(corners[1], corners[0]).cross(edge.subVectors(corners[2], corners[0])).normalize();
+    // Degrees the face leans past vertical, towards the bed
+    const lean = THREE.MathUtils.radToDeg(Math.asin(THREE.MathUtils.clamp(-normal.z, 0, 1)));
+    const onBed = Math.max(corners[0].z, corners[1].z, corners[2].z) <= BED_CONTACT_TOLERANCE;
+
+    if (onBed || lean <= overhangAngle - BORDERLINE_RANGE) {
+      color.copy(base);
+    } else if (lean <= overhangAngle) {
+      color.copy(base).lerp(borderline, (lean - (overhangAngle - BORDERLINE_RANGE)) / BORDERLINE_RANGE);
+    } else {
+      color.copy(overhang);
+    }
+    for (let k = 0; k < 3; k++) color.toArray(colors, (i + k) * 3);
+  }
+  return new THREE.Float32BufferAttribute(colors, 3);
+}
+
+// Bed of the printer with a 10 mm grid and the outline of the build volume
+function buildPlate(): THREE.Group {
+  const { x, y, z } = PRINTER.buildVolume;
+  const plate = new THREE.Group();
+
+  const bed = new THREE.Mesh(
+    new THREE.PlaneGeometry(x, y),
+    new THREE.MeshStandardMaterial({ color: PLATE_COLOR, side: THREE.DoubleSide }),
+  );
+  bed.position.set(x / 2, y / 2, -0.01);
+  plate.add(bed);
+
+  const lines: number[] = [];
+  for (let gx = 0; gx <= x; gx += 10) lines.push(gx, 0, 0, gx, y, 0);
+  for (let gy = 0; gy <= y; gy += 10) lines.push(0, gy, 0, x, gy, 0);
+  const grid = new THREE.BufferGeometry();
+  grid.setAttribute("position", new THREE.Float32BufferAttribute(lines, 3));
+  plate.add(new THREE.LineSegments(grid, new THREE.LineBasicMaterial({ color: 0x3a4148 })));
+
+  const volume = new THREE.LineSegments(
+    new THREE.EdgesGeometry(new THREE.BoxGeometry(x, y, z)),
+    new THREE.LineBasicMaterial({ color: 0x00b8d4, transparent: true, opacity: 0.25 }),
+  );
+  volume.position.set(x / 2, y / 2, z / 2);
+  plate.add(volume);
+
+  return plate;
+}
+
+// Points the camera at the box from the front-right, far enough to see all of it
+function frameBox(camera: THREE.PerspectiveCamera, controls: OrbitControls, box: THREE.Box3) {
+  const centre = box.getCenter(new THREE.Vector3());
+  const radius = Math.max(box.getSize(new THREE.Vector3()).length() / 2, 10);
+  const distance = radius / Math.sin(THREE.MathUtils.degToRad(camera.fov / 2));
+  const direction = new THREE.Vector3(0.6, -1, 0.7).normalize();
+  camera.position.copy(centre).addScaledVector(direction, distance);
+  camera.near = distance / 100;
+  camera.far = distance * 100;
+  camera.updateProjectionMatrix();
+  controls.target.copy(centre);
+  controls.update();
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
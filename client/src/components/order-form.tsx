@@ -1,18 +1,22 @@
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { z } from "zod";
-import { User, Truck, Box, Send, Upload, CheckCircle2 } from "lucide-react";
+import { User, Truck, Box, Send, Upload, CheckCircle2, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import ModelViewer from "./model-viewer";
-import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { checkout, loadCartItemFile, newCartItemId, removeCartItem, saveCartItem } from "@/lib/cart";
+import OrderItemCard, { type OrderItemStatus } from "./order-item-card";
+import type { CartChange, CartItemWithQuote } from "@shared/cart";
+import type { QuoteOptions } from "@shared/pricing";
+import { MAX_ORDER_ITEMS, type PriceBook } from "@shared/schema";
 
 const orderFormSchema = z.object({
   customerName: z.string().min(1, "Customer name is required"),
@@ -22,7 +26,6 @@ const orderFormSchema = z.object({
   city: z.string().optional(),
   state: z.string().optional(),
   zipCode: z.string().optional(),
-  supportRemoval: z.boolean().default(false),
 }).refine((data) => {
   if (data.deliveryMethod === "delivery") {
     return data.streetAddress && data.zipCode;
@@ -35,16 +38,28 @@ const orderFormSchema = z.object({
 
 type OrderFormData = z.infer<typeof orderFormSchema>;
 
-interface ModelAnalysis {
-  weight: number;
-  printTime: string;
-  baseCost: number;
+// A file the customer added; the ID is also its cart item ID
+interface SelectedFile {
+  id: string;
+  file: File;
+  restored?: { options: QuoteOptions; color: string }; // saved on an earlier visit
 }
 
 export default function OrderForm() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [modelAnalysis, setModelAnalysis] = useState<ModelAnalysis | null>(null);
+  const [items, setItems] = useState<SelectedFile[]>([]);
+  const [statuses, setStatuses] = useState<Record<string, OrderItemStatus>>({});
   const [isDragOver, setIsDragOver] = useState(false);
+  const [rush, setRush] = useState<string | undefined>();
+  // Prices and items checkout or a returning visit found had changed
+  const [cartChanges, setCartChanges] = useState<CartChange[]>([]);
+  const [requoteKey, setRequoteKey] = useState(0);
+  const cartRestored = useRef(false);
+  // Totals of restored items as last saved, checked against their new quotes
+  const savedTotals = useRef<Record<string, string>>({});
+  // Quote and colour last saved for each item, as "quoteId:colour"
+  const savedItems = useRef<Record<string, string>>({});
+  // Cart requests run one at a time so they reach the server in order
+  const cartRequests = useRef<Promise<void>>(Promise.resolve());
   const { toast } = useToast();
 
   const form = useForm<OrderFormData>({
@@ -57,71 +72,111 @@ export default function OrderForm() {
       city: "Monroe Township",
       state: "NJ",
       zipCode: "",
-      supportRemoval: false,
     },
   });
 
   const deliveryMethod = form.watch("deliveryMethod");
-  const supportRemoval = form.watch("supportRemoval");
-
-  // Mutation for analyzing 3D model
-  const analyzeModelMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append('modelFile', file);
-      const response = await apiRequest('POST', '/api/analyze-model', formData);
-      return response.json();
-    },
-    onSuccess: (data: ModelAnalysis) => {
-      setModelAnalysis(data);
-      toast({
-        title: "Model analyzed successfully",
-        description: `Estimated weight: ${data.weight}g, Print time: ${data.printTime}`,
-      });
-    },
-    onError: (error: any) => {
-      console.error('File analysis error:', error);
+
+  const pricingQuery = useQuery<PriceBook>({ queryKey: ["/api/pricing"] });
+  const cartQuery = useQuery<CartItemWithQuote[]>({ queryKey: ["/api/cart"] });
+
+  const queueCartRequest = (request: () => Promise<unknown>) => {
+    cartRequests.current = cartRequests.current.then(request).then(() => undefined, (error: any) => {
       toast({
-        title: "Analysis failed",
-        description: error.message || "Failed to analyze 3D model",
+        title: "Cart not saved",
+        description: error.message || "Failed to update your cart",
         variant: "destructive",
       });
-    },
-  });
+    });
+  };
 
-  // Mutation for submitting order
-  const submitOrderMutation = useMutation({
-    mutationFn: async (data: OrderFormData & { modelFile?: File }) => {
-      const formData = new FormData();
-      Object.entries(data).forEach(([key, value]) => {
-        if (key !== 'modelFile' && value !== undefined) {
-          formData.append(key, value.toString());
+  // Bring back what the customer left in the cart on an earlier visit. Each
+  // model is downloaded again and re-quoted with the options it was saved
+  // with; the cart's prices are checked once the new quotes arrive.
+  useEffect(() => {
+    if (!cartQuery.data || cartRestored.current) return;
+    cartRestored.current = true;
+    const cart = cartQuery.data;
+    if (cart.length === 0) return;
+    setRush(cart[0].quote.options.rush);
+    Promise.all(cart.map((item) =>
+      loadCartItemFile(item).then(
+        (file): SelectedFile => {
+          savedTotals.current[item.id] = item.quote.totalCost;
+          savedItems.current[item.id] = `${item.quote.id}:${item.color}`;
+          return { id: item.id, file, restored: { options: item.quote.options, color: item.color } };
+        },
+        (error: any) => {
+          queueCartRequest(() => removeCartItem(item.id));
+          setCartChanges((current) => current.concat({
+            itemId: item.id,
+            fileName: item.quote.modelFileName,
+            previousTotal: item.quote.totalCost,
+            reason: error.message,
+          }));
+          return null;
+        },
+      ),
+    )).then((restored) => {
+      const found = restored.filter((item): item is SelectedFile => item !== null);
+      setItems((current) => found.concat(current));
+    });
+  }, [cartQuery.data]);
+
+  // Save each priced item to the cart, and report restored items whose price
+  // moved since they were saved
+  useEffect(() => {
+    items.forEach(({ id, file }) => {
+      const status = statuses[id];
+      if (!status?.ready || !status.quote) return;
+      const quote = status.quote;
+      const previousTotal = savedTotals.current[id];
+      if (previousTotal !== undefined) {
+        delete savedTotals.current[id];
+        if (previousTotal !== quote.totalCost) {
+          setCartChanges((current) => current.concat({ itemId: id, fileName: file.name, previousTotal, newTotal: quote.totalCost }));
         }
-      });
-      
-      // Include model analysis data if available
-      if (modelAnalysis) {
-        formData.append('modelWeight', modelAnalysis.weight.toString());
-        formData.append('printTime', modelAnalysis.printTime);
-        formData.append('baseCost', modelAnalysis.baseCost.toString());
-        formData.append('totalCost', calculateTotalCost().toString());
-        formData.append('supportCost', (data.supportRemoval ? 5.00 : 0.00).toString());
       }
-      
-      if (data.modelFile) {
-        formData.append('modelFile', data.modelFile);
-      }
-      const response = await apiRequest('POST', '/api/orders', formData);
-      return response.json();
+      const saved = `${quote.id}:${status.color}`;
+      if (savedItems.current[id] === saved) return;
+      savedItems.current[id] = saved;
+      queueCartRequest(() => saveCartItem(id, quote.id, status.color));
+    });
+  }, [items, statuses]);
+
+  // Checkout orders whatever is in the cart, so pending cart saves go first
+  const submitOrderMutation = useMutation({
+    mutationFn: async (data: OrderFormData) => {
+      await cartRequests.current;
+      return checkout(data);
     },
-    onSuccess: (order) => {
+    onSuccess: (result) => {
+      if (!("order" in result)) {
+        // The server re-quoted the cart; show what changed and have each card
+        // fetch its new price, which is then saved back to the cart
+        const kept = result.items.map((item) => item.id);
+        setItems((current) => current.filter((item) => kept.includes(item.id)));
+        setCartChanges(result.changes);
+        setRequoteKey((key) => key + 1);
+        queryClient.invalidateQueries({ queryKey: ["/api/pricing"] });
+        toast({
+          title: "Your cart has changed",
+          description: result.message,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Order submitted successfully!",
-        description: `Order ID: ${order.id}. We will contact you within 24 hours to confirm the details.`,
+        description: `Order ID: ${result.order.id}. We will contact you within 24 hours to confirm the details.`,
       });
       form.reset();
-      setSelectedFile(null);
-      setModelAnalysis(null);
+      setItems([]);
+      setStatuses({});
+      setRush(undefined);
+      setCartChanges([]);
+      savedItems.current = {};
+      queryClient.setQueryData(["/api/cart"], []);
     },
     onError: (error: any) => {
       toast({
@@ -132,26 +187,46 @@ export default function OrderForm() {
     },
   });
 
-  const handleFileSelect = (file: File) => {
-    console.log('File selected:', file.name, file.type, file.size);
-    setSelectedFile(file);
-    setModelAnalysis(null); // Clear previous analysis
-    analyzeModelMutation.mutate(file);
+  // Stable so the cards' status effects only run when their own status changes
+  const handleStatusChange = useCallback((id: string, status: OrderItemStatus) => {
+    setStatuses((current) => ({ ...current, [id]: status }));
+  }, []);
+
+  const handleRemove = useCallback((id: string) => {
+    delete savedItems.current[id];
+    queueCartRequest(() => removeCartItem(id));
+    setItems((current) => current.filter((item) => item.id !== id));
+    setStatuses((current) => {
+      const { [id]: _removed, ...rest } = current;
+      return rest;
+    });
+  }, []);
+
+  const handleFilesSelect = (files: FileList) => {
+    const room = MAX_ORDER_ITEMS - items.length;
+    const added = Array.from(files).slice(0, Math.max(0, room));
+    if (added.length < files.length) {
+      toast({
+        title: "Too many models",
+        description: `An order can contain at most ${MAX_ORDER_ITEMS} models.`,
+        variant: "destructive",
+      });
+    }
+    setItems((current) => current.concat(added.map((file) => ({ id: newCartItemId(), file }))));
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      handleFileSelect(file);
+    if (event.target.files?.length) {
+      handleFilesSelect(event.target.files);
     }
+    event.target.value = ""; // so the same file can be added again
   };
 
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     setIsDragOver(false);
-    const file = event.dataTransfer.files[0];
-    if (file) {
-      handleFileSelect(file);
+    if (event.dataTransfer.files.length) {
+      handleFilesSelect(event.dataTransfer.files);
     }
   };
 
@@ -164,26 +239,31 @@ export default function OrderForm() {
     setIsDragOver(false);
   };
 
-  const calculateTotalCost = () => {
-    if (!modelAnalysis) return 0;
-    const supportCost = supportRemoval ? 5.00 : 0;
-    return modelAnalysis.baseCost + supportCost;
-  };
+  const itemStatuses = items.map((item) => statuses[item.id]);
+  const allReady = itemStatuses.every((status) => status?.ready);
+  const orderTotal = itemStatuses.reduce((sum, status) => sum + (status?.quote ? parseFloat(status.quote.totalCost) : 0), 0);
 
   const onSubmit = (data: OrderFormData) => {
-    if (!selectedFile || !modelAnalysis) {
+    if (items.length === 0) {
       toast({
         title: "3D Model Required",
-        description: "Please upload a 3D model file before submitting your order.",
+        description: "Please upload at least one 3D model file before submitting your order.",
         variant: "destructive",
       });
       return;
     }
 
-    submitOrderMutation.mutate({
-      ...data,
-      modelFile: selectedFile,
-    });
+    const waiting = items.filter((item) => !statuses[item.id]?.ready);
+    if (waiting.length > 0) {
+      toast({
+        title: "Quote not ready",
+        description: `Waiting on ${waiting.map((item) => item.file.name).join(", ")}. Models must fit the printer and be priced before ordering.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    submitOrderMutation.mutate(data);
   };
 
   return (
@@ -340,16 +420,16 @@ export default function OrderForm() {
           )}
         </section>
 
-        {/* 3D Model Upload & Price Calculator Section */}
+        {/* 3D Models & Pricing Section */}
         <section className="bg-dark-surface rounded-xl p-6 shadow-2xl">
           <h2 className="text-2xl font-semibold mb-6 flex items-center">
             <Box className="mr-3 text-cyan-primary" />
-            3D Model & Pricing
+            3D Models & Pricing
           </h2>
           
           {/* File Upload Area */}
           <div className="mb-6">
-            <Label className="block text-sm font-medium mb-2">Upload 3D Model File *</Label>
+            <Label className="block text-sm font-medium mb-2">Upload 3D Model Files *</Label>
             <div 
               className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer bg-dark-bg transition-colors file-upload-area ${
                 isDragOver ? 'border-cyan-primary bg-cyan-primary/10' : 'border-dark-accent hover:border-cyan-primary'
@@ -359,111 +439,128 @@ export default function OrderForm() {
               onDragOver={handleDragOver}
               onDragLeave={handleDragLeave}
             >
-              {selectedFile ? (
+              {items.length > 0 ? (
                 <>
                   <CheckCircle2 className="text-4xl text-cyan-primary mb-4 mx-auto" />
-                  <p className="text-lg mb-2 text-cyan-primary">File uploaded: {selectedFile.name}</p>
-                  <p className="text-sm text-text-secondary">Click to select a different file</p>
+                  <p className="text-lg mb-2 text-cyan-primary">{items.length} {items.length === 1 ? "model" : "models"} added</p>
+                  <p className="text-sm text-text-secondary">Drop or click to add more (up to {MAX_ORDER_ITEMS})</p>
                 </>
               ) : (
                 <>
                   <Upload className="text-4xl text-text-secondary mb-4 mx-auto" />
-                  <p className="text-lg mb-2">Drop your 3D model file here or <span className="text-cyan-primary">click to browse</span></p>
-                  <p className="text-sm text-text-secondary">Supported formats: STL, OBJ, 3MF (Max 50MB)</p>
+                  <p className="text-lg mb-2">Drop your 3D model files here or <span className="text-cyan-primary">click to browse</span></p>
+                  <p className="text-sm text-text-secondary">Supported formats: STL, OBJ, 3MF, G-code (Max 50MB each)</p>
                 </>
               )}
               <input 
                 id="file-input"
                 type="file" 
-                accept=".stl,.obj,.3mf" 
+                accept=".stl,.obj,.3mf,.gcode" 
+                multiple
                 onChange={handleFileUpload}
                 className="hidden" 
               />
             </div>
+            <p className="text-xs text-text-secondary mt-2">
+              Models you add are kept in your cart on this device, so you can come back and order later.
+            </p>
           </div>
 
-          {/* Model Preview & Price Calculator */}
-          {selectedFile && (
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              <div className="bg-dark-bg rounded-lg p-4">
-                <h3 className="text-lg font-medium mb-4">Model Preview</h3>
-                <ModelViewer file={selectedFile} />
-              </div>
-              
-              {modelAnalysis && (
-                <div className="bg-dark-bg rounded-lg p-4">
-                  <h3 className="text-lg font-medium mb-4">Price Calculation</h3>
-                  <div className="space-y-4">
-                    <div className="flex justify-between items-center">
-                      <span className="text-text-secondary">Model Weight:</span>
-                      <span className="font-semibold">{modelAnalysis.weight}g</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-text-secondary">Print Time:</span>
-                      <span className="font-semibold">{modelAnalysis.printTime}</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-text-secondary">Base Cost ($0.25/gram):</span>
-                      <span className="font-semibold">${modelAnalysis.baseCost.toFixed(2)}</span>
-                    </div>
-                    
-                    {/* Support Removal Option */}
-                    <div className="border-t border-dark-accent pt-4">
-                      <FormField
-                        control={form.control}
-                        name="supportRemoval"
-                        render={({ field }) => (
-                          <FormItem className="flex flex-row items-start space-x-3 space-y-0">
-                            <FormControl>
-                              <Checkbox 
-                                checked={field.value}
-                                onCheckedChange={field.onChange}
-                                className="text-cyan-primary border-dark-accent"
-                              />
-                            </FormControl>
-                            <div className="space-y-1 leading-none">
-                              <FormLabel>Add Support Removal (+$5.00)</FormLabel>
-                            </div>
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    
-                    <div className="border-t border-dark-accent pt-4">
-                      <div className="flex justify-between items-center text-lg font-bold">
-                        <span>Total Cost:</span>
-                        <span className="text-cyan-primary">${calculateTotalCost().toFixed(2)}</span>
-                      </div>
-                      
-                      {/* Price Disclaimer */}
-                      <div className="mt-3 p-3 bg-dark-accent rounded-lg">
-                        <p className="text-sm text-text-secondary">
-                          <span className="text-yellow-400">⚠️ Note:</span> The price calculator sometimes malfunctions and may give incorrect pricing estimates. Final pricing will be confirmed before production begins.
-                        </p>
-                      </div>
-                    </div>
-                  </div>
+          {/* One card per model, each with its own options and quote */}
+          <div className="space-y-6">
+            {items.map((item) => (
+              <OrderItemCard
+                key={item.id}
+                id={item.id}
+                file={item.file}
+                rush={rush}
+                restored={item.restored}
+                requoteKey={requoteKey}
+                onStatusChange={handleStatusChange}
+                onRemove={handleRemove}
+              />
+            ))}
+          </div>
+        </section>
+
+        {/* Order Summary Section */}
+        {(items.length > 0 || cartChanges.length > 0) && (
+          <section className="bg-dark-surface rounded-xl p-6 shadow-2xl">
+            <h2 className="text-2xl font-semibold mb-6">Order Summary</h2>
+
+            {cartChanges.length > 0 && (
+              <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500 rounded-lg">
+                <div className="flex items-center mb-2">
+                  <AlertTriangle className="text-yellow-400 mr-3 h-5 w-5 shrink-0" />
+                  <p className="text-yellow-400 font-medium">Your cart changed since these models were added</p>
                 </div>
-              )}
+                <ul className="space-y-1 text-sm">
+                  {cartChanges.map((change) => (
+                    <li key={change.itemId}>
+                      {change.fileName}:{" "}
+                      {change.newTotal
+                        ? `$${change.previousTotal} → $${change.newTotal}`
+                        : `removed from your cart. ${change.reason ?? ""}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Turnaround applies to the whole order, so every item is quoted with it */}
+            {pricingQuery.data && pricingQuery.data.rules.rush.length > 0 && (
+              <div className="mb-6">
+                <Label className="block text-sm mb-2">Turnaround</Label>
+                <Select value={rush ?? "standard"} onValueChange={(value) => setRush(value === "standard" ? undefined : value)}>
+                  <SelectTrigger className="bg-dark-bg border-dark-accent">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="standard">Standard</SelectItem>
+                    {pricingQuery.data.rules.rush.map((option) => (
+                      <SelectItem key={option.code} value={option.code}>
+                        {option.label} · +{option.surchargePercent}%
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
 
-              {analyzeModelMutation.isPending && (
-                <div className="bg-dark-bg rounded-lg p-4">
-                  <h3 className="text-lg font-medium mb-4">Analyzing Model...</h3>
-                  <div className="flex items-center justify-center py-8">
-                    <Box className="h-8 w-8 text-cyan-primary animate-spin" />
+            <div className="space-y-2 text-sm">
+              {items.map((item, index) => {
+                const quote = itemStatuses[index]?.quote;
+                return (
+                  <div key={item.id} className="flex justify-between gap-4">
+                    <span className="truncate">
+                      {item.file.name}
+                      {quote && quote.options.quantity > 1 ? ` × ${quote.options.quantity}` : ""}
+                    </span>
+                    <span>{quote ? `$${quote.totalCost}` : "Pricing..."}</span>
                   </div>
-                </div>
-              )}
+                );
+              })}
             </div>
-          )}
-        </section>
+            <div className="border-t border-dark-accent pt-4 mt-4 flex justify-between items-center text-xl font-bold">
+              <span>Order Total:</span>
+              <span className="text-cyan-primary">${orderTotal.toFixed(2)}</span>
+            </div>
+
+            {/* Price Disclaimer */}
+            <div className="mt-3 p-3 bg-dark-accent rounded-lg">
+              <p className="text-sm text-text-secondary">
+                <span className="text-yellow-400">⚠️ Note:</span> The price calculator sometimes malfunctions and may give incorrect pricing estimates. Final pricing will be confirmed before production begins.
+              </p>
+            </div>
+          </section>
+        )}
 
         {/* Submit Section */}
         <section className="bg-dark-surface rounded-xl p-6 shadow-2xl">
           <Button 
             type="submit" 
             className="w-full bg-cyan-primary hover:bg-cyan-dark text-dark-bg font-bold py-4 px-8 text-lg"
-            disabled={submitOrderMutation.isPending || !selectedFile || !modelAnalysis}
+            disabled={submitOrderMutation.isPending || items.length === 0 || !allReady}
           >
             {submitOrderMutation.isPending ? (
               <>
@@ -0,0 +1,747 @@
+import { lazy, Suspense, useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, Info, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { analyzeModel, STAGE_LABELS, type AnalyzedModel, type ModelOptions } from "@/lib/analysis-job";
+import { ANALYSIS_STAGES, batchPrintMinutes, formatPrintTime, MM_PER_UNIT, platesNeeded, MODEL_UNITS, QUALITY_PRESETS, QUALITY_SETTINGS, type AnalysisStage, type GcodeAnalysis, type IssueSeverity, type ModelAnalysis, type ModelDimensions, type ModelUnit, type QualityPreset } from "@shared/analysis";
+import { PRINTER } from "@shared/printer";
+import { formatAmount, MAX_QUANTITY, type QuoteOptions } from "@shared/pricing";
+import type { Material, PriceBook, Quote } from "@shared/schema";
+
+// three.js is only downloaded once a customer picks a file
+const ModelViewer = lazy(() => import("./model-viewer"));
+
+const issueStyles: Record<IssueSeverity, string> = {
+  error: "text-red-400",
+  warning: "text-yellow-400",
+  info: "text-text-secondary",
+};
+
+const unitLabels: Record<ModelUnit, string> = {
+  mm: "Millimetres",
+  cm: "Centimetres",
+  in: "Inches",
+  m: "Metres",
+};
+
+// Re-analysis waits until the customer stops typing a scale or print setting
+const RESCALE_DELAY = 500; // ms
+
+// Model size in mm for a unit and scale, from the file's own numbers
+function scaledSize(source: ModelDimensions, units: ModelUnit, scale: number): ModelDimensions {
+  const factor = MM_PER_UNIT[units] * (scale / 100);
+  const size = (value: number) => parseFloat((value * factor).toFixed(2));
+  return { x: size(source.x), y: size(source.y), z: size(source.z) };
+}
+
+// Percent of the analysis done once `stage` has started; queued jobs are at 0
+function stageProgress(stage: AnalysisStage | undefined): number {
+  return stage ? ((ANALYSIS_STAGES.indexOf(stage) + 0.5) / ANALYSIS_STAGES.length) * 100 : 0;
+}
+
+function isIdentityRotation(rotation: number[]): boolean {
+  return rotation.every((value, i) => Math.abs(value - (i % 4 === 0 ? 1 : 0)) < 1e-6);
+}
+
+// Stored upload and analysis options a quote is requested for
+interface QuoteRequest extends ModelOptions {
+  fileHash: string;
+  fileName: string;
+}
+
+function materialAvailability(material: Material): string | null {
+  if (!material.compatiblePrinters.includes(PRINTER.id)) return "not available on our printer";
+  if (!material.inStock) return "out of stock";
+  return null;
+}
+
+function describeFit({ fit, kind }: ModelAnalysis): string {
+  const { x, y, z } = PRINTER.buildVolume;
+  if (kind === "gcode") {
+    return fit.fits
+      ? `Tool paths fit the ${x}×${y}×${z} mm build volume.`
+      : `This G-code was sliced for a printer larger than our ${x}×${y}×${z} mm build volume.`;
+  }
+  switch (fit.placement) {
+    case "as-is":
+      return `Fits the ${x}×${y}×${z} mm build plate as uploaded.`;
+    case "rotated":
+      return fit.upAxis === "z"
+        ? `Fits the build plate after turning it ${fit.rotation}°.`
+        : `Fits the build plate when laid on its side (${fit.upAxis.toUpperCase()} axis up).`;
+    case "diagonal":
+      return `Fits only when placed diagonally on the build plate (turned ${fit.rotation}°).`;
+    case "too-large":
+      return `Too large for our ${x}×${y}×${z} mm printer. Scale it to ${fit.maxScale}% or split it into ${fit.piecesNeeded} pieces.`;
+  }
+}
+
+// The pre-sliced file's own summary, e.g. "2h 5m, 48g, 16120 mm of filament"
+function describeSlicerEstimate({ slicerEstimate }: GcodeAnalysis): string | null {
+  const parts = [
+    slicerEstimate.printTime,
+    slicerEstimate.weight !== undefined ? `${slicerEstimate.weight}g` : undefined,
+    slicerEstimate.filamentLength !== undefined ? `${slicerEstimate.filamentLength} mm of filament` : undefined,
+  ].filter((part): part is string => !!part);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+// Whether a quote was priced with the options now chosen on the card. Optional
+// values compare equal when unset on either side.
+function quotedWith(quoted: QuoteOptions, current: Omit<QuoteOptions, "overhangAngle">): boolean {
+  return (Object.keys(current) as (keyof typeof current)[]).every((key) =>
+    JSON.stringify(quoted[key] ?? null) === JSON.stringify(current[key] ?? null));
+}
+
+// What the order form needs from each item to place the order
+export interface OrderItemStatus {
+  quote: Quote | null;
+  color: string;
+  ready: boolean; // analysed, printable and priced with the current options
+}
+
+interface OrderItemCardProps {
+  id: string;
+  file: File;
+  rush?: string; // chosen once for the whole order
+  // Options and colour the item was saved to the cart with on an earlier visit
+  restored?: { options: QuoteOptions; color: string };
+  requoteKey?: number; // changes when the cart was re-quoted at checkout
+  onStatusChange: (id: string, status: OrderItemStatus) => void;
+  onRemove: (id: string) => void;
+}
+
+// One uploaded model: its analysis, print options and quote
+export default function OrderItemCard({ id, file, rush, restored, requoteKey, onStatusChange, onRemove }: OrderItemCardProps) {
+  const saved = restored?.options;
+  const [modelAnalysis, setModelAnalysis] = useState<ModelAnalysis | null>(null);
+  const [units, setUnits] = useState<ModelUnit>(saved?.units ?? "mm");
+  const [scale, setScale] = useState(saved?.scale ?? 100);
+  const [material, setMaterial] = useState(saved?.material ?? "pla");
+  const [color, setColor] = useState(restored?.color ?? "");
+  const [quality, setQuality] = useState<QualityPreset>(saved?.quality ?? "standard");
+  // Blank inputs leave infill and walls to the quality preset
+  const [infill, setInfill] = useState<number | undefined>(saved?.infill);
+  const [infillInput, setInfillInput] = useState(saved?.infill?.toString() ?? "");
+  const [walls, setWalls] = useState<number | undefined>(saved?.walls);
+  const [wallsInput, setWallsInput] = useState(saved?.walls?.toString() ?? "");
+  const [scaleInput, setScaleInput] = useState((saved?.scale ?? 100).toString());
+  const [targetAxis, setTargetAxis] = useState<keyof ModelDimensions>("z");
+  const [targetInput, setTargetInput] = useState("");
+  const analyzedFile = useRef<File | null>(null);
+  const latestRequest = useRef(0);
+  const [analysisStage, setAnalysisStage] = useState<AnalysisStage | undefined>();
+  const [quoteRequest, setQuoteRequest] = useState<QuoteRequest | null>(null);
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [supportRemoval, setSupportRemoval] = useState(saved?.supportRemoval ?? false);
+  const [postProcessing, setPostProcessing] = useState<string[]>(saved?.postProcessing ?? []);
+  const [quantity, setQuantity] = useState(saved?.quantity ?? 1);
+  const [quantityInput, setQuantityInput] = useState((saved?.quantity ?? 1).toString());
+  const latestQuote = useRef(0);
+  const { toast } = useToast();
+
+  const materialsQuery = useQuery<Material[]>({ queryKey: ["/api/materials"] });
+  const selectedMaterial = materialsQuery.data?.find((entry) => entry.id === material);
+  const pricingQuery = useQuery<PriceBook>({ queryKey: ["/api/pricing"] });
+
+  // Keep the colour valid for the chosen material
+  useEffect(() => {
+    if (selectedMaterial && !selectedMaterial.colors.some((entry) => entry.name === color)) {
+      setColor(selectedMaterial.colors[0]?.name ?? "");
+    }
+  }, [selectedMaterial, color]);
+
+  // Mutation for analyzing 3D model
+  const analyzeModelMutation = useMutation({
+    mutationFn: async ({ file, request, ...options }: ModelOptions & { file: File; request: number }) => {
+      return analyzeModel(file, options, (stage) => {
+        if (request === latestRequest.current) setAnalysisStage(stage);
+      });
+    },
+    onSuccess: ({ analysis: data, fileHash }: AnalyzedModel, { file, request, ...options }) => {
+      // A newer scale may have been requested while this one was running
+      if (request !== latestRequest.current) return;
+      const firstResult = !modelAnalysis;
+      setModelAnalysis(data);
+      setQuoteRequest({ fileHash, fileName: file.name, ...options });
+      if (firstResult) {
+        if (data.kind === "mesh") {
+          setTargetInput(scaledSize(data.scaling.sourceSize, data.scaling.units, data.scaling.scale)[targetAxis].toString());
+        }
+        toast({
+          title: `${file.name} analyzed`,
+          description: `Estimated weight: ${data.weight}g, Print time: ${data.printTime}`,
+        });
+      }
+    },
+    onError: (error: any) => {
+      console.error('File analysis error:', error);
+      toast({
+        title: `Analysis of ${file.name} failed`,
+        description: error.message || "Failed to analyze 3D model",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Prices come from the server as a stored quote, re-issued whenever the
+  // analysis or the chosen options change
+  const quoteMutation = useMutation({
+    mutationFn: async ({ request, ...body }: QuoteRequest & { supportRemoval: boolean; postProcessing: string[]; rush?: string; quantity: number; request: number }) => {
+      const response = await apiRequest('POST', '/api/quotes', body);
+      return response.json() as Promise<Quote>;
+    },
+    onSuccess: (data, { request }) => {
+      if (request === latestQuote.current) setQuote(data);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Quote failed",
+        description: error.message || "Failed to price this model",
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (!quoteRequest) return;
+    const request = ++latestQuote.current;
+    quoteMutation.mutate({ ...quoteRequest, supportRemoval, postProcessing, rush, quantity, request });
+  }, [quoteRequest, supportRemoval, postProcessing, rush, quantity, requoteKey]);
+
+  // A new file is analysed straight away; option changes are debounced
+  useEffect(() => {
+    const fileChanged = analyzedFile.current !== file;
+    analyzedFile.current = file;
+    const timer = setTimeout(() => {
+      const request = ++latestRequest.current;
+      setAnalysisStage(undefined);
+      analyzeModelMutation.mutate({ file, units, scale, material, quality, infill, walls, request });
+    }, fileChanged ? 0 : RESCALE_DELAY);
+    return () => clearTimeout(timer);
+  }, [file, units, scale, material, quality, infill, walls]);
+
+  const sourceSize = modelAnalysis?.kind === "mesh" ? modelAnalysis.scaling.sourceSize : null;
+  const supportsNeeded = modelAnalysis?.kind === "mesh" ? modelAnalysis.supports.needed : (modelAnalysis?.supportWeight ?? 0) > 0;
+  const slicerEstimate = modelAnalysis?.kind === "gcode" ? describeSlicerEstimate(modelAnalysis) : null;
+  const supportRemovalLine = quote?.lineItems.find((item) => item.code === "support_removal");
+  // The smallest quantity break the customer hasn't reached yet
+  const nextQuantityBreak = pricingQuery.data?.rules.quantityBreaks
+    .filter((entry) => entry.minQuantity > quantity && entry.discountPercent > 0)
+    .sort((a, b) => a.minQuantity - b.minQuantity)[0];
+  // Shown immediately while the re-analysis for a new scale is running
+  const previewSize = sourceSize ? scaledSize(sourceSize, units, scale) : modelAnalysis?.dimensions;
+
+  const handleUnitsChange = (value: ModelUnit) => {
+    setUnits(value);
+    if (sourceSize) setTargetInput(scaledSize(sourceSize, value, scale)[targetAxis].toString());
+  };
+
+  const handleScaleChange = (value: string) => {
+    setScaleInput(value);
+    const percent = parseFloat(value);
+    if (percent >= 1 && percent <= 10000) {
+      setScale(percent);
+      if (sourceSize) setTargetInput(scaledSize(sourceSize, units, percent)[targetAxis].toString());
+    }
+  };
+
+  const handleTargetAxisChange = (axis: keyof ModelDimensions) => {
+    setTargetAxis(axis);
+    if (previewSize) setTargetInput(previewSize[axis].toString());
+  };
+
+  // Scale so the chosen side comes out at the requested length
+  const handleTargetChange = (value: string) => {
+    setTargetInput(value);
+    const target = parseFloat(value);
+    if (!sourceSize || !(target > 0) || sourceSize[targetAxis] <= 0) return;
+    const percent = parseFloat(((target / (sourceSize[targetAxis] * MM_PER_UNIT[units])) * 100).toFixed(2));
+    if (percent >= 1 && percent <= 10000) {
+      setScale(percent);
+      setScaleInput(percent.toString());
+    }
+  };
+
+  // Whole numbers in range override the preset; blank returns to it
+  const handleInfillChange = (value: string) => {
+    setInfillInput(value);
+    const percent = Number(value);
+    if (value.trim() === "") setInfill(undefined);
+    else if (Number.isInteger(percent) && percent >= 0 && percent <= 100) setInfill(percent);
+  };
+
+  const handleWallsChange = (value: string) => {
+    setWallsInput(value);
+    const count = Number(value);
+    if (value.trim() === "") setWalls(undefined);
+    else if (Number.isInteger(count) && count >= 1 && count <= 10) setWalls(count);
+  };
+
+  const handleQuantityChange = (value: string) => {
+    setQuantityInput(value);
+    const copies = Number(value);
+    if (Number.isInteger(copies) && copies >= 1 && copies <= MAX_QUANTITY) setQuantity(copies);
+  };
+
+  const togglePostProcessing = (code: string, checked: boolean) => {
+    setPostProcessing((current) => checked ? current.concat(code) : current.filter((entry) => entry !== code));
+  };
+
+  // Not ready while a change is waiting out the debounce, being re-analysed or
+  // re-priced: the quote on hand would be for the previous options
+  const ready = !!modelAnalysis && modelAnalysis.fit.fits && !!quote &&
+    !analyzeModelMutation.isPending && !quoteMutation.isPending &&
+    quotedWith(quote.options, { units, scale, material, quality, infill, walls, supportRemoval, postProcessing, rush, quantity });
+  useEffect(() => {
+    onStatusChange(id, { quote, color, ready });
+  }, [id, quote, color, ready, onStatusChange]);
+
+  return (
+    <div className="border border-dark-accent rounded-lg p-4">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-medium truncate" title={file.name}>{file.name}</h3>
+        <div className="flex items-center gap-3 shrink-0">
+          {quote && <span className="text-cyan-primary font-bold">${quote.totalCost}</span>}
+          <Button type="button" variant="ghost" size="icon" onClick={() => onRemove(id)} title="Remove this model">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Material & Colour */}
+      <div className="mb-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <Label className="block text-sm font-medium mb-2">Material *</Label>
+          <Select value={material} onValueChange={setMaterial}>
+            <SelectTrigger className="bg-dark-bg border-dark-accent focus:border-cyan-primary">
+              <SelectValue placeholder="Choose a material" />
+            </SelectTrigger>
+            <SelectContent>
+              {materialsQuery.data?.map((entry) => {
+                const unavailable = materialAvailability(entry);
+                return (
+                  <SelectItem key={entry.id} value={entry.id} disabled={!!unavailable}>
+                    {entry.name} · ${parseFloat(entry.pricePerGram)}/g{unavailable ? ` (${unavailable})` : ""}
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+          {selectedMaterial && (
+            <p className="text-xs text-text-secondary mt-2">
+              {selectedMaterial.description} Density {parseFloat(selectedMaterial.density)} g/cm³.
+            </p>
+          )}
+        </div>
+        <div>
+          <Label className="block text-sm font-medium mb-2">Colour *</Label>
+          <div className="flex flex-wrap gap-2">
+            {selectedMaterial?.colors.map((entry) => (
+              <button
+                key={entry.name}
+                type="button"
+                title={entry.name}
+                onClick={() => setColor(entry.name)}
+                className={`flex items-center gap-2 rounded-full border px-3 py-1 text-sm ${
+                  color === entry.name ? "border-cyan-primary text-cyan-primary" : "border-dark-accent text-text-secondary"
+                }`}
+              >
+                <span className="h-4 w-4 rounded-full border border-dark-accent" style={{ backgroundColor: entry.hex }} />
+                {entry.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Print Quality */}
+      {modelAnalysis?.kind !== "gcode" && (
+        <div className="mb-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <Label className="block text-sm font-medium mb-2">Print quality</Label>
+            <Select value={quality} onValueChange={(value) => setQuality(value as QualityPreset)}>
+              <SelectTrigger className="bg-dark-bg border-dark-accent focus:border-cyan-primary">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUALITY_PRESETS.map((preset) => (
+                  <SelectItem key={preset} value={preset}>
+                    {QUALITY_SETTINGS[preset].name} · {QUALITY_SETTINGS[preset].layerHeight} mm layers
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-text-secondary mt-2">
+              Finer layers look smoother but take longer to print.
+            </p>
+          </div>
+          <div>
+            <Label className="block text-sm font-medium mb-2">Infill (%)</Label>
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              step="1"
+              value={infillInput}
+              placeholder={QUALITY_SETTINGS[quality].infill.toString()}
+              onChange={(e) => handleInfillChange(e.target.value)}
+              className="bg-dark-bg border-dark-accent focus:border-cyan-primary"
+            />
+          </div>
+          <div>
+            <Label className="block text-sm font-medium mb-2">Walls</Label>
+            <Input
+              type="number"
+              min="1"
+              max="10"
+              step="1"
+              value={wallsInput}
+              placeholder={QUALITY_SETTINGS[quality].walls.toString()}
+              onChange={(e) => handleWallsChange(e.target.value)}
+              className="bg-dark-bg border-dark-accent focus:border-cyan-primary"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Model Preview & Price Calculator */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-dark-bg rounded-lg p-4">
+          <h3 className="text-lg font-medium mb-4">Model Preview</h3>
+          <Suspense fallback={<div className="aspect-square bg-dark-accent rounded-lg" />}>
+            <ModelViewer
+              file={file}
+              scale={MM_PER_UNIT[units] * (scale / 100)}
+              analysis={modelAnalysis?.kind === "mesh" ? modelAnalysis : undefined}
+            />
+          </Suspense>
+        </div>
+        
+        {modelAnalysis && (
+          <div className="bg-dark-bg rounded-lg p-4">
+            <h3 className="text-lg font-medium mb-4">Price Calculation</h3>
+            <div className="space-y-4">
+              <div className="flex justify-between items-center">
+                <span className="text-text-secondary">Dimensions:</span>
+                <span className="font-semibold">
+                  {previewSize?.x} × {previewSize?.y} × {previewSize?.z} mm
+                </span>
+              </div>
+              {modelAnalysis.kind === "mesh" && (
+                <div className="p-3 bg-dark-accent rounded-lg space-y-3">
+                  <div className="flex justify-between items-center">
+                    <p className="text-sm font-medium">Size</p>
+                    {analyzeModelMutation.isPending && (
+                      <span className="text-xs text-text-secondary">
+                        Updating quote{analysisStage ? ` · ${STAGE_LABELS[analysisStage]}` : ""}...
+                      </span>
+                    )}
+                  </div>
+                  {!modelAnalysis.scaling.plausible && (
+                    <div className="flex items-start text-sm text-yellow-400">
+                      <AlertTriangle className="mr-2 h-4 w-4 shrink-0 mt-0.5" />
+                      <p>
+                        This size looks unusual if the file is in {unitLabels[modelAnalysis.scaling.units].toLowerCase()}.
+                        {modelAnalysis.scaling.suggestedUnit && (
+                          <>
+                            {" "}Was it exported in {unitLabels[modelAnalysis.scaling.suggestedUnit].toLowerCase()}?{" "}
+                            <button
+                              type="button"
+                              className="underline text-cyan-primary"
+                              onClick={() => handleUnitsChange(modelAnalysis.scaling.suggestedUnit!)}
+                            >
+                              Use {unitLabels[modelAnalysis.scaling.suggestedUnit].toLowerCase()}
+                            </button>
+                          </>
+                        )}
+                      </p>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label className="text-xs text-text-secondary">File units</Label>
+                      {modelAnalysis.scaling.declaredUnits ? (
+                        <p className="text-sm py-2">Set by the 3MF file</p>
+                      ) : (
+                        <Select value={units} onValueChange={(value) => handleUnitsChange(value as ModelUnit)}>
+                          <SelectTrigger className="bg-dark-bg border-dark-accent">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MODEL_UNITS.map((unit) => (
+                              <SelectItem key={unit} value={unit}>{unitLabels[unit]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                    <div>
+                      <Label className="text-xs text-text-secondary">Scale (%)</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={10000}
+                        step="any"
+                        value={scaleInput}
+                        onChange={(event) => handleScaleChange(event.target.value)}
+                        className="bg-dark-bg border-dark-accent focus:border-cyan-primary"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <Label className="text-xs text-text-secondary">Or set one side (mm)</Label>
+                    <div className="grid grid-cols-2 gap-3">
+                      <Select value={targetAxis} onValueChange={(value) => handleTargetAxisChange(value as keyof ModelDimensions)}>
+                        <SelectTrigger className="bg-dark-bg border-dark-accent">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="x">Width (X)</SelectItem>
+                          <SelectItem value="y">Depth (Y)</SelectItem>
+                          <SelectItem value="z">Height (Z)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={targetInput}
+                        onChange={(event) => handleTargetChange(event.target.value)}
+                        className="bg-dark-bg border-dark-accent focus:border-cyan-primary"
+                      />
+                    </div>
+                  </div>
+                </div>
+              )}
+              <div className="flex justify-between items-center">
+                <span className="text-text-secondary">Volume:</span>
+                <span className="font-semibold">{modelAnalysis.volume} cm³</span>
+              </div>
+              {modelAnalysis.kind === "mesh" && (
+                <div className="flex justify-between items-center">
+                  <span className="text-text-secondary">Printed as:</span>
+                  <span className="font-semibold text-right">
+                    {modelAnalysis.print.walls} walls, {modelAnalysis.print.infill}% infill
+                    <span className="block text-text-secondary text-xs font-normal">
+                      {modelAnalysis.print.shellVolume} cm³ shell + {modelAnalysis.print.infillVolume} cm³ infill
+                    </span>
+                  </span>
+                </div>
+              )}
+              <div
+                className={`flex items-start p-3 rounded-lg ${
+                  modelAnalysis.fit.fits ? 'bg-cyan-dark/10 border border-cyan-dark' : 'bg-red-500/10 border border-red-500'
+                }`}
+              >
+                {modelAnalysis.fit.fits ? (
+                  <CheckCircle2 className="text-cyan-primary mr-3 h-5 w-5 shrink-0" />
+                ) : (
+                  <AlertTriangle className="text-red-400 mr-3 h-5 w-5 shrink-0" />
+                )}
+                <p className={`text-sm ${modelAnalysis.fit.fits ? 'text-cyan-primary' : 'text-red-400'}`}>
+                  {describeFit(modelAnalysis)}
+                </p>
+              </div>
+              {modelAnalysis.kind === "mesh" && modelAnalysis.issues.length > 0 && (
+                <div className="p-3 bg-dark-accent rounded-lg space-y-2">
+                  <p className="text-sm font-medium">Mesh problems found</p>
+                  <ul className="space-y-1">
+                    {modelAnalysis.issues.map((issue) => (
+                      <li key={issue.code} className={`flex items-start text-sm ${issueStyles[issue.severity]}`}>
+                        {issue.severity === "info" ? (
+                          <Info className="mr-2 h-4 w-4 shrink-0 mt-0.5" />
+                        ) : (
+                          <AlertTriangle className="mr-2 h-4 w-4 shrink-0 mt-0.5" />
+                        )}
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-text-secondary">
+                    Turn on "Problem edges" in the preview to see where they are. Fixing these in your
+                    modelling software and re-exporting gives a more accurate quote.
+                  </p>
+                </div>
+              )}
+              {modelAnalysis.kind === "mesh" && modelAnalysis.repair.repaired && (
+                <div className="p-3 bg-cyan-dark/10 border border-cyan-dark rounded-lg">
+                  <p className="text-sm font-medium text-cyan-primary mb-1">
+                    This quote is based on an automatically repaired copy of your model
+                  </p>
+                  <ul className="text-xs text-text-secondary list-disc list-inside">
+                    {modelAnalysis.repair.changes.map((change) => (
+                      <li key={change}>{change}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {modelAnalysis.kind === "mesh" ? (
+                <div className="flex justify-between items-center">
+                  <span className="text-text-secondary">Print Orientation:</span>
+                  <span className="font-semibold">
+                    {isIdentityRotation(modelAnalysis.orientation.rotation) ? "As uploaded" : "Re-oriented for fewer supports"}
+                  </span>
+                </div>
+              ) : (
+                <div className="p-3 bg-cyan-dark/10 border border-cyan-dark rounded-lg">
+                  <p className="text-sm text-cyan-primary">
+                    Pre-sliced G-code{modelAnalysis.slicer ? ` from ${modelAnalysis.slicer}` : ""}: we will print it exactly as sliced.
+                  </p>
+                  {slicerEstimate && (
+                    <p className="text-xs text-text-secondary mt-1">
+                      The file's own estimate is {slicerEstimate}; we price from the tool paths themselves.
+                    </p>
+                  )}
+                </div>
+              )}
+              <div className="flex justify-between items-center">
+                <span className="text-text-secondary">Model Weight:</span>
+                <span className="font-semibold">{modelAnalysis.weight}g</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-text-secondary">Print Time:</span>
+                <span className="font-semibold">
+                  {modelAnalysis.printTime} <span className="text-text-secondary text-sm">({modelAnalysis.layers} layers)</span>
+                </span>
+              </div>
+              {/* Support Removal Option */}
+              <div className="border-t border-dark-accent pt-4">
+                {supportsNeeded ? (
+                  <>
+                    <div className="flex justify-between items-center mb-3 text-sm">
+                      {modelAnalysis.kind === "mesh" ? (
+                        <>
+                          <span className="text-text-secondary">
+                            Supports ({modelAnalysis.supports.overhangArea} cm² of overhangs):
+                          </span>
+                          <span>{modelAnalysis.supports.weight}g</span>
+                        </>
+                      ) : (
+                        <>
+                          <span className="text-text-secondary">Supports in G-code:</span>
+                          <span>{modelAnalysis.supportWeight}g</span>
+                        </>
+                      )}
+                    </div>
+                    <label className="flex items-center space-x-3 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={supportRemoval}
+                        onCheckedChange={(checked) => setSupportRemoval(checked === true)}
+                        className="text-cyan-primary border-dark-accent"
+                      />
+                      <span>
+                        Add Support Removal{supportRemovalLine ? ` (+${formatAmount(supportRemovalLine.amount)})` : ""}
+                      </span>
+                    </label>
+                  </>
+                ) : (
+                  <p className="text-sm text-text-secondary">No supports needed for this model.</p>
+                )}
+              </div>
+
+              {/* Finishing, as offered by the current price book */}
+              {pricingQuery.data && pricingQuery.data.rules.postProcessing.length > 0 && (
+                <div className="border-t border-dark-accent pt-4 space-y-3">
+                  {pricingQuery.data.rules.postProcessing.map((service) => (
+                    <label key={service.code} className="flex items-center space-x-3 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={postProcessing.includes(service.code)}
+                        onCheckedChange={(checked) => togglePostProcessing(service.code, checked === true)}
+                        className="text-cyan-primary border-dark-accent"
+                      />
+                      <span>{service.label}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              
+              <div className="border-t border-dark-accent pt-4">
+                <div className="flex justify-between items-center mb-2">
+                  <Label>Quantity</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max={MAX_QUANTITY}
+                    step="1"
+                    value={quantityInput}
+                    onChange={(e) => handleQuantityChange(e.target.value)}
+                    className="w-24 bg-dark-bg border-dark-accent focus:border-cyan-primary"
+                  />
+                </div>
+                {quantity > 1 && (
+                  <p className="text-xs text-text-secondary mb-2">
+                    {modelAnalysis.plate.copiesPerPlate} per build plate · {platesNeeded(modelAnalysis.plate, quantity)} plate
+                    {platesNeeded(modelAnalysis.plate, quantity) === 1 ? "" : "s"} · about{" "}
+                    {formatPrintTime(batchPrintMinutes(modelAnalysis, quantity))} of printing
+                  </p>
+                )}
+                {nextQuantityBreak && (
+                  <p className="text-xs text-cyan-primary mb-2">
+                    Order {nextQuantityBreak.minQuantity} or more for {nextQuantityBreak.discountPercent}% off.
+                  </p>
+                )}
+                {quote && (
+                  <div className="space-y-1 mb-3 text-sm">
+                    {quote.lineItems.map((item) => (
+                      <div key={item.code} className="flex justify-between items-center">
+                        <span className="text-text-secondary">{item.label}</span>
+                        <span>{formatAmount(item.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex justify-between items-center text-lg font-bold">
+                  <span>Item Total:</span>
+                  <span className="text-cyan-primary">
+                    {quote && !quoteMutation.isPending ? `$${quote.totalCost}` : "Pricing..."}
+                  </span>
+                </div>
+                {quote && !quoteMutation.isPending && quote.options.quantity > 1 && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-text-secondary">Per unit ({quote.options.quantity} copies):</span>
+                    <span>{formatAmount(parseFloat(quote.totalCost) / quote.options.quantity)}</span>
+                  </div>
+                )}
+                {quote && (
+                  <p className="mt-1 text-xs text-text-secondary">
+                    Quote valid until {new Date(quote.expiresAt).toLocaleDateString()} ·{" "}
+                    <a href={`/quote/${quote.id}`} target="_blank" rel="noreferrer" className="text-cyan-primary hover:underline">
+                      Share this quote
+                    </a>
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {!modelAnalysis && (
+          <div className="bg-dark-bg rounded-lg p-4">
+            <h3 className="text-lg font-medium mb-4">{analyzeModelMutation.isError ? "Analysis failed" : "Analyzing Model..."}</h3>
+            <div className="space-y-3 py-4">
+              <Progress value={stageProgress(analysisStage)} />
+              <div className="flex justify-between text-xs">
+                {ANALYSIS_STAGES.map((stage) => (
+                  <span
+                    key={stage}
+                    className={stageProgress(stage) <= stageProgress(analysisStage) ? "text-cyan-primary" : "text-text-secondary"}
+                  >
+                    {STAGE_LABELS[stage]}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { adminRequest } from "@/lib/admin";
+import { queryClient } from "@/lib/queryClient";
+import { pricingRulesSchema, type PricingRules } from "@shared/pricing";
+import type { PriceBook } from "@shared/schema";
+
+// Parses the edited JSON, returning the rules or the first problem with them
+function parseRules(text: string): { rules?: PricingRules; error?: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error: any) {
+    return { error: `Not valid JSON: ${error.message}` };
+  }
+  const result = pricingRulesSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `${issue.path.join(".") || "rules"}: ${issue.message}` };
+  }
+  return { rules: result.data };
+}
+
+// The current pricing rules as editable JSON, with the version history.
+// Saving creates a new version; quotes already issued keep their prices.
+export default function PriceBookEditor({ token }: { token: string }) {
+  const [text, setText] = useState("");
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+
+  const priceBooksQuery = useQuery<PriceBook[]>({
+    queryKey: ["/api/admin/pricing", token],
+    queryFn: async () => (await adminRequest("GET", "/api/admin/pricing")).json(),
+  });
+  const current = priceBooksQuery.data?.[0];
+
+  useEffect(() => {
+    if (current) setText(JSON.stringify(current.rules, null, 2));
+  }, [current?.version]);
+
+  const { error } = text ? parseRules(text) : { error: undefined };
+
+  const saveMutation = useMutation({
+    mutationFn: async (rules: PricingRules) =>
+      (await adminRequest("POST", "/api/admin/pricing", { rules, note: note || undefined })).json() as Promise<PriceBook>,
+    onSuccess: (priceBook) => {
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pricing"] });
+      toast({ title: `Price book version ${priceBook.version} saved`, description: "New quotes use these prices." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Saving prices failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const save = () => {
+    const { rules } = parseRules(text);
+    if (rules) saveMutation.mutate(rules);
+  };
+
+  return (
+    <section className="bg-dark-surface rounded-xl p-6 shadow-2xl">
+      <h2 className="text-xl font-semibold mb-1">Pricing</h2>
+      <p className="text-text-secondary text-sm mb-4">
+        Rates for machine time, setup, minimum charge, support removal, finishing, rush turnaround and quantity
+        breaks. Material prices per gram are set in the materials catalogue.
+      </p>
+      {priceBooksQuery.isLoading ? (
+        <p className="text-text-secondary">Loading prices...</p>
+      ) : priceBooksQuery.isError ? (
+        <p className="text-red-400">{(priceBooksQuery.error as Error).message}</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-3">
+            <Textarea
+              value={text}
+              onChange={(event) => setText(event.target.value)}
+              spellCheck={false}
+              rows={24}
+              className="font-mono text-xs bg-dark-bg border-dark-accent focus:border-cyan-primary"
+            />
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <div className="flex gap-3">
+              <Input
+                value={note}
+                onChange={(event) => setNote(event.target.value)}
+                placeholder="What changed?"
+                maxLength={200}
+                className="bg-dark-bg border-dark-accent focus:border-cyan-primary"
+              />
+              <Button
+                onClick={save}
+                disabled={!!error || !text || saveMutation.isPending}
+                className="bg-cyan-primary hover:bg-cyan-dark text-dark-bg font-bold shrink-0"
+              >
+                Save as version {(current?.version ?? 0) + 1}
+              </Button>
+            </div>
+          </div>
+          <div>
+            <h3 className="text-sm font-medium mb-2">History</h3>
+            <ul className="space-y-2 text-sm">
+              {priceBooksQuery.data?.map((priceBook) => (
+                <li key={priceBook.version} className="border-b border-dark-accent pb-2">
+                  <button
+                    type="button"
+                    onClick={() => setText(JSON.stringify(priceBook.rules, null, 2))}
+                    className="text-cyan-primary hover:underline"
+                    title="Load these rules into the editor"
+                  >
+                    Version {priceBook.version}
+                  </button>
+                  {priceBook.version === current?.version && <span className="text-text-secondary"> (current)</span>}
+                  <p className="text-text-secondary text-xs">
+                    {priceBook.createdAt ? new Date(priceBook.createdAt).toLocaleString() : ""}
+                    {priceBook.note ? ` · ${priceBook.note}` : ""}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
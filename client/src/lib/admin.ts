@@ -0,0 +1,20 @@
+import { apiRequest } from "./queryClient";
+
+const TOKEN_KEY = "pointzero-admin-token";
+
+// The admin token lives for the browser session only
+export function getAdminToken(): string | null {
+  return sessionStorage.getItem(TOKEN_KEY);
+}
+
+export function setAdminToken(token: string | null) {
+  if (token) {
+    sessionStorage.setItem(TOKEN_KEY, token);
+  } else {
+    sessionStorage.removeItem(TOKEN_KEY);
+  }
+}
+
+export function adminRequest(method: string, url: string, data?: unknown): Promise<Response> {
+  return apiRequest(method, url, data, { Authorization: `Bearer ${getAdminToken() ?? ""}` });
+}
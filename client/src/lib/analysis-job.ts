@@ -0,0 +1,94 @@
+import { apiRequest } from "./queryClient";
+import type { AnalysisStage, ModelAnalysis, ModelUnit, QualityPreset } from "@shared/analysis";
+
+export const STAGE_LABELS: Record<AnalysisStage, string> = {
+  parse: "Reading file",
+  repair: "Repairing mesh",
+  orient: "Choosing orientation",
+  slice: "Slicing layers",
+  price: "Calculating price",
+};
+
+// Hashed once per file; rescaling the same file reuses the digest
+const fileHashes = new WeakMap<File, Promise<string | null>>();
+
+// SHA-256 of the file as hex, or null where Web Crypto is unavailable (plain HTTP)
+function hashFile(file: File): Promise<string | null> {
+  let hash = fileHashes.get(file);
+  if (!hash) {
+    hash = crypto.subtle
+      ? file.arrayBuffer()
+          .then((buffer) => crypto.subtle.digest("SHA-256", buffer))
+          .then((digest) => Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join(""))
+          .catch(() => null)
+      : Promise.resolve(null);
+    fileHashes.set(file, hash);
+  }
+  return hash;
+}
+
+// An analysis with the hash the server stored the file under, which quotes refer to
+export interface AnalyzedModel {
+  analysis: ModelAnalysis;
+  fileHash: string;
+}
+
+// Analysis inputs chosen on the order form; unset infill and walls follow the quality preset
+export interface ModelOptions {
+  units: ModelUnit;
+  scale: number;
+  material: string;
+  quality: QualityPreset;
+  infill?: number;
+  walls?: number;
+}
+
+// Queues the analysis, then follows the job's event stream until it finishes.
+// Files this browser already uploaded are referenced by hash instead of
+// uploaded again.
+export async function analyzeModel(
+  file: File,
+  options: ModelOptions,
+  onProgress: (stage: AnalysisStage | undefined) => void,
+): Promise<AnalyzedModel> {
+  let queued: { jobId?: string; fileHash?: string; uploadRequired?: boolean } = { uploadRequired: true };
+  const hash = await hashFile(file);
+  if (hash) {
+    const response = await apiRequest("POST", "/api/analyze-model", { hash, fileName: file.name, ...options });
+    queued = await response.json();
+  }
+  if (queued.uploadRequired) {
+    const formData = new FormData();
+    formData.append("modelFile", file);
+    formData.append("units", options.units);
+    formData.append("scale", options.scale.toString());
+    formData.append("material", options.material);
+    formData.append("quality", options.quality);
+    if (options.infill !== undefined) formData.append("infill", options.infill.toString());
+    if (options.walls !== undefined) formData.append("walls", options.walls.toString());
+    const response = await apiRequest("POST", "/api/analyze-model", formData);
+    queued = await response.json();
+  }
+  const { jobId, fileHash } = queued as { jobId: string; fileHash: string };
+
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(`/api/analyze-model/${jobId}/events`);
+    events.addEventListener("progress", (event) => {
+      onProgress(JSON.parse((event as MessageEvent).data).stage);
+    });
+    events.addEventListener("result", (event) => {
+      events.close();
+      resolve({ analysis: JSON.parse((event as MessageEvent).data), fileHash });
+    });
+    events.addEventListener("failed", (event) => {
+      events.close();
+      reject(new Error(JSON.parse((event as MessageEvent).data).message || "Failed to analyze 3D model"));
+    });
+    // Fired on network errors; EventSource would otherwise keep reconnecting
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) return;
+      events.close();
+      reject(new Error("Lost connection while analyzing the model"));
+    };
+  });
+}
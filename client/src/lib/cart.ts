@@ -0,0 +1,44 @@
+import { apiRequest } from "./queryClient";
+import type { CartItemWithQuote, CheckoutResult } from "@shared/cart";
+import type { InsertOrder } from "@shared/schema";
+
+// IDs for new cart items. crypto.randomUUID needs a secure context, which
+// plain HTTP previews lack.
+export function newCartItemId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function saveCartItem(id: string, quoteId: string, color: string): Promise<CartItemWithQuote[]> {
+  const response = await apiRequest("PUT", `/api/cart/items/${id}`, { quoteId, color });
+  return response.json();
+}
+
+export async function removeCartItem(id: string): Promise<CartItemWithQuote[]> {
+  const response = await apiRequest("DELETE", `/api/cart/items/${id}`);
+  return response.json();
+}
+
+// Downloads a saved item's model so the order form can show and re-quote it
+// like a fresh upload
+export async function loadCartItemFile(item: CartItemWithQuote): Promise<File> {
+  const response = await apiRequest("GET", `/api/cart/items/${item.id}/file`);
+  return new File([await response.blob()], item.quote.modelFileName);
+}
+
+// A 409 is not a failure: it carries what changed while the cart was re-quoted
+export async function checkout(customer: Omit<InsertOrder, "totalCost">): Promise<CheckoutResult> {
+  const response = await fetch("/api/cart/checkout", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(customer),
+    credentials: "include",
+  });
+  if (response.status === 409) {
+    return response.json();
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
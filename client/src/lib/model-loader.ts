@@ -0,0 +1,48 @@
+import * as THREE from "three";
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader.js";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js";
+import { ThreeMFLoader } from "three/examples/jsm/loaders/3MFLoader.js";
+import { GCodeLoader } from "three/examples/jsm/loaders/GCodeLoader.js";
+
+export type LoadedModel =
+  | { kind: "mesh"; object: THREE.Object3D }
+  | { kind: "toolpath"; object: THREE.Object3D };
+
+// Parses an upload in the browser for the preview. Meshes keep the file's
+// own coordinates (Z up, as on the printer); G-code is drawn as tool paths.
+export async function loadModel(file: File): Promise<LoadedModel> {
+  const ext = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+  switch (ext) {
+    case ".stl": {
+      const geometry = new STLLoader().parse(await file.arrayBuffer());
+      return { kind: "mesh", object: new THREE.Mesh(geometry) };
+    }
+    case ".obj":
+      return { kind: "mesh", object: new OBJLoader().parse(await file.text()) };
+    case ".3mf":
+      return { kind: "mesh", object: new ThreeMFLoader().parse(await file.arrayBuffer()) };
+    case ".gcode": {
+      const object = new GCodeLoader().parse(await file.text());
+      // GCodeLoader turns the print Y-up for three.js scenes; undo that
+      object.rotation.set(0, 0, 0);
+      // Children alternate extruded lines and travel moves; hide the travel
+      object.children.forEach((child, i) => {
+        child.visible = i % 2 === 0;
+      });
+      return { kind: "toolpath", object };
+    }
+    default:
+      throw new Error(`Unsupported model format: ${ext}`);
+  }
+}
+
+// Frees GPU buffers held by a model that is no longer shown
+export function disposeObject(object: THREE.Object3D) {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+      child.geometry.dispose();
+      const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach((material) => material.dispose());
+    }
+  });
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Lock, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import AdminThumbnail from "@/components/admin-thumbnail";
+import PriceBookEditor from "@/components/price-book-editor";
+import { adminRequest, getAdminToken, setAdminToken } from "@/lib/admin";
+import { queryClient } from "@/lib/queryClient";
+import { QUALITY_SETTINGS, type QualityPreset } from "@shared/analysis";
+import type { OrderWithItems } from "@shared/schema";
+
+const ORDER_STATUSES = ["pending", "confirmed", "in_progress", "completed"] as const;
+
+const statusLabels: Record<string, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  in_progress: "In progress",
+  completed: "Completed",
+};
+
+export default function Admin() {
+  const [token, setToken] = useState(getAdminToken());
+  const [tokenInput, setTokenInput] = useState("");
+  const { toast } = useToast();
+
+  const ordersQuery = useQuery<OrderWithItems[]>({
+    queryKey: ["/api/admin/orders", token],
+    queryFn: async () => (await adminRequest("GET", "/api/admin/orders")).json(),
+    enabled: !!token,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: string }) =>
+      (await adminRequest("PATCH", `/api/admin/orders/${id}/status`, { status })).json(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] }),
+    onError: (error: any) => {
+      toast({ title: "Status update failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const signIn = (event: React.FormEvent) => {
+    event.preventDefault();
+    setAdminToken(tokenInput);
+    setToken(tokenInput);
+    setTokenInput("");
+  };
+
+  const signOut = () => {
+    setAdminToken(null);
+    setToken(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-dark-bg text-text-primary">
+      <header className="bg-dark-surface border-b border-dark-accent">
+        <div className="max-w-6xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-cyan-primary">PointZero Designs</h1>
+            <p className="text-text-secondary text-sm">Order admin</p>
+          </div>
+          {token && (
+            <Button variant="ghost" onClick={signOut}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign out
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-8">
+        {!token ? (
+          <form onSubmit={signIn} className="max-w-sm mx-auto bg-dark-surface rounded-xl p-6 shadow-2xl space-y-4">
+            <h2 className="text-lg font-semibold flex items-center">
+              <Lock className="mr-2 h-5 w-5 text-cyan-primary" />
+              Admin token
+            </h2>
+            <Input
+              type="password"
+              value={tokenInput}
+              onChange={(event) => setTokenInput(event.target.value)}
+              className="bg-dark-bg border-dark-accent focus:border-cyan-primary"
+            />
+            <Button type="submit" className="w-full bg-cyan-primary hover:bg-cyan-dark text-dark-bg font-bold" disabled={!tokenInput}>
+              Sign in
+            </Button>
+          </form>
+        ) : ordersQuery.isError ? (
+          <div className="bg-dark-surface rounded-xl p-6 text-center space-y-4">
+            <p className="text-red-400">{(ordersQuery.error as Error).message}</p>
+            <Button variant="outline" onClick={signOut}>Use a different token</Button>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <section className="bg-dark-surface rounded-xl p-6 shadow-2xl">
+              <h2 className="text-xl font-semibold mb-4">Orders</h2>
+              {ordersQuery.isLoading ? (
+                <p className="text-text-secondary">Loading orders...</p>
+              ) : ordersQuery.data?.length === 0 ? (
+                <p className="text-text-secondary">No orders yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Models</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {ordersQuery.data?.map((order) => (
+                      <TableRow key={order.id}>
+                        <TableCell className="align-top">
+                          <p className="font-medium">{order.customerName}</p>
+                          <p className="text-text-secondary">{order.customerPhone}</p>
+                          <p className="text-text-secondary text-xs">
+                            {order.createdAt ? new Date(order.createdAt).toLocaleString() : ""}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <div className="space-y-4">
+                            {order.items.map((item) => (
+                              <div key={item.id} className="flex gap-3">
+                                {item.thumbnailFileName ? (
+                                  <AdminThumbnail itemId={item.id} className="h-20 w-20 shrink-0" />
+                                ) : (
+                                  <div className="h-20 w-20 shrink-0" />
+                                )}
+                                <div>
+                                  <p className="font-medium break-all">{item.modelFileName}</p>
+                                  <p className="text-text-secondary">
+                                    {item.modelWeight}g · {item.printTime} · ${item.totalCost}
+                                    {" · "}
+                                    <a
+                                      href={`/quote/${item.quoteId}`}
+                                      target="_blank"
+                                      rel="noreferrer"
+                                      className="text-xs text-cyan-primary hover:underline"
+                                    >
+                                      View quote
+                                    </a>
+                                  </p>
+                                  <div className="flex flex-wrap gap-1 mt-1">
+                                    {item.material && (
+                                      <Badge variant="secondary">
+                                        {item.material.toUpperCase()}{item.color ? ` · ${item.color}` : ""}
+                                      </Badge>
+                                    )}
+                                    {!item.preSliced && item.quality && (
+                                      <Badge variant="secondary">
+                                        {QUALITY_SETTINGS[item.quality as QualityPreset]?.name ?? item.quality} · {item.infill}% · {item.walls} walls
+                                      </Badge>
+                                    )}
+                                    {item.quantity > 1 && <Badge>× {item.quantity}</Badge>}
+                                    {item.preSliced && <Badge variant="secondary">Pre-sliced</Badge>}
+                                    {item.modelRepaired && <Badge variant="secondary">Repaired</Badge>}
+                                    {item.supportRemoval && <Badge variant="secondary">Support removal</Badge>}
+                                    {item.modelScale && parseFloat(item.modelScale) !== 100 && (
+                                      <Badge variant="secondary">{parseFloat(item.modelScale)}%</Badge>
+                                    )}
+                                  </div>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right align-top">
+                          <p className="font-semibold">${order.totalCost}</p>
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <Select
+                            value={order.status ?? "pending"}
+                            onValueChange={(status) => statusMutation.mutate({ id: order.id, status })}
+                          >
+                            <SelectTrigger className="w-36 bg-dark-bg border-dark-accent">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ORDER_STATUSES.map((status) => (
+                                <SelectItem key={status} value={status}>{statusLabels[status]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </section>
+            <PriceBookEditor token={token} />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { FileText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { batchPrintMinutes, formatPrintTime, platesNeeded, QUALITY_SETTINGS } from "@shared/analysis";
+import { formatAmount } from "@shared/pricing";
+import type { Quote } from "@shared/schema";
+
+function describePlates(plates: number): string {
+  return plates === 1 ? "one build plate" : `${plates} build plates`;
+}
+
+// Shareable view of a stored quote, exactly as it was priced
+export default function QuotePage() {
+  const { id } = useParams<{ id: string }>();
+  const quoteQuery = useQuery<Quote>({ queryKey: ["/api/quotes", id] });
+  const quote = quoteQuery.data;
+  const expired = quote ? new Date(quote.expiresAt).getTime() < Date.now() : false;
+
+  return (
+    <div className="min-h-screen bg-dark-bg text-text-primary">
+      <header className="bg-dark-surface border-b border-dark-accent">
+        <div className="max-w-3xl mx-auto px-6 py-4">
+          <h1 className="text-2xl font-bold text-cyan-primary">PointZero Designs</h1>
+          <p className="text-text-secondary text-sm">Print quote</p>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-6 py-8">
+        {quoteQuery.isLoading ? (
+          <p className="text-text-secondary">Loading quote...</p>
+        ) : quoteQuery.isError || !quote ? (
+          <div className="bg-dark-surface rounded-xl p-6 text-center">
+            <p className="text-red-400">{(quoteQuery.error as Error)?.message || "Quote not found"}</p>
+          </div>
+        ) : (
+          <section className="bg-dark-surface rounded-xl p-6 shadow-2xl space-y-6">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold flex items-center">
+                  <FileText className="mr-2 h-5 w-5 text-cyan-primary" />
+                  <span className="break-all">{quote.modelFileName}</span>
+                </h2>
+                <p className="text-text-secondary text-sm mt-1">
+                  Quoted {quote.createdAt ? new Date(quote.createdAt).toLocaleString() : ""} · Price book {quote.priceBookVersion}
+                </p>
+              </div>
+              {expired ? <Badge variant="destructive">Expired</Badge> : <Badge variant="secondary">Valid</Badge>}
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-6">
+              {quote.analysis.kind === "mesh" && quote.analysis.thumbnailFile && (
+                <img
+                  src={`/api/quotes/${quote.id}/thumbnail`}
+                  alt="Model preview"
+                  className="h-48 w-48 rounded-lg bg-dark-bg shrink-0"
+                />
+              )}
+              <div className="flex-1 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-text-secondary">Dimensions:</span>
+                  <span>
+                    {quote.analysis.dimensions.x} × {quote.analysis.dimensions.y} × {quote.analysis.dimensions.z} mm
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-text-secondary">Quantity:</span>
+                  <span>
+                    {quote.options.quantity}
+                    {quote.options.quantity > 1 && ` on ${describePlates(platesNeeded(quote.analysis.plate, quote.options.quantity))}`}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-text-secondary">Material:</span>
+                  <span>{quote.options.material.toUpperCase()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-text-secondary">Weight:</span>
+                  <span>{quote.analysis.weight}g{quote.options.quantity > 1 ? " each" : ""}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-text-secondary">Print time:</span>
+                  <span>{formatPrintTime(batchPrintMinutes(quote.analysis, quote.options.quantity))}</span>
+                </div>
+                {quote.analysis.kind === "mesh" && (
+                  <div className="flex justify-between">
+                    <span className="text-text-secondary">Quality:</span>
+                    <span>
+                      {QUALITY_SETTINGS[quote.analysis.print.quality].name} ({quote.analysis.print.layerHeight} mm),{" "}
+                      {quote.analysis.print.infill}% infill, {quote.analysis.print.walls} walls
+                    </span>
+                  </div>
+                )}
+                {quote.analysis.kind === "mesh" ? (
+                  <div className="flex justify-between">
+                    <span className="text-text-secondary">Scale:</span>
+                    <span>{quote.options.scale}% ({quote.options.units})</span>
+                  </div>
+                ) : (
+                  <div className="flex justify-between">
+                    <span className="text-text-secondary">File:</span>
+                    <span>Pre-sliced G-code</span>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="border-t border-dark-accent pt-4 space-y-2">
+              {quote.lineItems.map((item) => (
+                <div key={item.code} className="flex justify-between text-sm">
+                  <span className="text-text-secondary">{item.label}</span>
+                  <span>{formatAmount(item.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-lg font-bold pt-2">
+                <span>Total:</span>
+                <span className="text-cyan-primary">${quote.totalCost}</span>
+              </div>
+              {quote.options.quantity > 1 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-text-secondary">Per unit:</span>
+                  <span>{formatAmount(parseFloat(quote.totalCost) / quote.options.quantity)}</span>
+                </div>
+              )}
+              <p className="text-xs text-text-secondary">
+                {expired ? "Expired" : "Valid until"} {new Date(quote.expiresAt).toLocaleString()}
+              </p>
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import type { NextFunction, Request, Response } from "express";
+
+const adminToken = process.env.ADMIN_TOKEN;
+if (!adminToken) {
+  console.error('Warning: ADMIN_TOKEN environment variable is not set. Admin endpoints will be disabled.');
+}
+
+// Guards the shop's admin endpoints with a shared token, sent either as a
+// bearer token or in the x-admin-token header
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!adminToken) {
+    return res.status(503).json({ message: "Admin access is not configured" });
+  }
+  const header = req.headers.authorization;
+  const token = header?.startsWith("Bearer ") ? header.slice(7) : req.headers["x-admin-token"];
+  if (token !== adminToken) {
+    return res.status(401).json({ message: "Admin token required" });
+  }
+  next();
+}
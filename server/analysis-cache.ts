@@ -0,0 +1,48 @@
+import path from "path";
+import { resolveQuality, type AnalysisOptions, type ModelAnalysis } from "@shared/analysis";
+import type { StoredUpload } from "./uploads";
+
+// Results kept in memory; the least recently used are dropped first
+const MAX_CACHED_ANALYSES = 500;
+
+// The file format comes from the extension, so the same bytes uploaded under
+// another extension are analysed separately. Only options that change the
+// geometry are part of the key: the material only sets the weights, which are
+// re-derived from the cached volumes, and prices aren't part of an analysis.
+export function analysisCacheKey(upload: StoredUpload, options: AnalysisOptions): string {
+  const extension = path.extname(upload.originalname).toLowerCase();
+  const quality = resolveQuality(options);
+  return [
+    `${upload.hash}${extension}`,
+    options.units,
+    options.scale,
+    options.overhangAngle,
+    options.quality,
+    quality.infill,
+    quality.walls,
+  ].join(":");
+}
+
+export class AnalysisCache {
+  private entries = new Map<string, ModelAnalysis>();
+
+  constructor(private capacity = MAX_CACHED_ANALYSES) {}
+
+  get(key: string): ModelAnalysis | undefined {
+    const analysis = this.entries.get(key);
+    if (analysis) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, analysis);
+    }
+    return analysis;
+  }
+
+  set(key: string, analysis: ModelAnalysis) {
+    this.entries.delete(key);
+    this.entries.set(key, analysis);
+    if (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
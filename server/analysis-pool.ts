@@ -0,0 +1,180 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import os from "os";
+import { Worker } from "worker_threads";
+import type { AnalysisJobState, AnalysisOptions, MaterialProperties } from "@shared/analysis";
+import type { OrderItem } from "@shared/schema";
+import { applyMaterial } from "./analysis";
+import { AnalysisCache, analysisCacheKey } from "./analysis-cache";
+import type { AnalysisMessage, AnalysisRequest, WorkerRequest } from "./analysis-worker";
+import type { GcodeExport } from "./gcode-export";
+import type { PrintProfile } from "./print-profiles";
+import type { StoredUpload } from "./uploads";
+
+// Jobs waiting for a free worker; beyond this uploads are turned away
+const MAX_QUEUED_JOBS = 20;
+// Finished jobs stay readable this long so clients can collect the result
+const JOB_RETENTION = 10 * 60 * 1000; // ms
+
+export class AnalysisQueueFullError extends Error {
+  constructor() {
+    super("We're analysing a lot of models right now. Please try again in a minute.");
+  }
+}
+
+// A queued analysis. Emits "update" with its state on every change.
+export class AnalysisJob extends EventEmitter {
+  readonly state: AnalysisJobState;
+  readonly done: Promise<AnalysisJobState>;
+  private settle!: (state: AnalysisJobState) => void;
+
+  constructor(readonly request: AnalysisRequest) {
+    super();
+    this.state = { id: request.jobId, status: "queued" };
+    this.done = new Promise((resolve) => {
+      this.settle = resolve;
+    });
+  }
+
+  update(changes: Partial<AnalysisJobState>) {
+    Object.assign(this.state, changes);
+    this.emit("update", this.state);
+    if (this.state.status === "done" || this.state.status === "failed") {
+      this.settle(this.state);
+    }
+  }
+}
+
+// Work queued for or running on a worker: an analysis or a G-code export
+interface PoolTask {
+  request: WorkerRequest;
+  crashMessage: string;
+  start(): void;
+  receive(message: AnalysisMessage): void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: PoolTask | null;
+}
+
+// Runs model analysis and G-code export on worker threads so parsing,
+// repair and slicing of large meshes never block the Express event loop
+export class AnalysisPool {
+  private workers: PoolWorker[] = [];
+  private queue: PoolTask[] = [];
+  private jobs = new Map<string, AnalysisJob>();
+  private cache = new AnalysisCache();
+
+  constructor(private size: number) {}
+
+  // Files analysed before with the same geometry options finish straight from
+  // the cache, weighed in the requested material
+  submit(file: StoredUpload, options: AnalysisOptions, material: MaterialProperties): AnalysisJob {
+    const key = analysisCacheKey(file, options);
+    const cached = this.cache.get(key);
+    if (!cached && this.queue.length >= MAX_QUEUED_JOBS) {
+      throw new AnalysisQueueFullError();
+    }
+    const job = new AnalysisJob({ type: "analysis", jobId: randomUUID(), file: { path: file.path, originalname: file.originalname, hash: file.hash }, options, material });
+    this.jobs.set(job.state.id, job);
+    job.done.then((state) => {
+      if (state.result) this.cache.set(key, state.result);
+      setTimeout(() => this.jobs.delete(job.state.id), JOB_RETENTION).unref();
+    });
+    if (cached) {
+      job.update({ status: "done", result: applyMaterial(cached, material) });
+    } else {
+      this.queue.push({
+        request: job.request,
+        crashMessage: "Analysis stopped unexpectedly. The model may be too complex.",
+        start: () => job.update({ status: "running" }),
+        receive: (message) => {
+          if (message.type === "progress") job.update({ stage: message.stage });
+          else if (message.type === "result") job.update({ status: "done", result: message.analysis });
+          else if (message.type === "error") job.update({ status: "failed", error: message.message });
+        },
+      });
+      this.dispatch();
+    }
+    return job;
+  }
+
+  // Slices an order item for printing. Exports queue behind analyses but are
+  // never turned away.
+  exportGcode(item: OrderItem, profile: PrintProfile, overhangAngle: number): Promise<GcodeExport> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        request: { type: "gcode", jobId: randomUUID(), item, profile, overhangAngle },
+        crashMessage: "G-code export stopped unexpectedly. The model may be too complex.",
+        start: () => {},
+        receive: (message) => {
+          if (message.type === "gcode") resolve(message.result);
+          else if (message.type === "error") reject(new Error(message.message));
+        },
+      });
+      this.dispatch();
+    });
+  }
+
+  get(jobId: string): AnalysisJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      let slot = this.workers.find((entry) => !entry.task);
+      if (!slot) {
+        if (this.workers.length >= this.size) return;
+        slot = this.spawn();
+      }
+      const task = this.queue.shift()!;
+      slot.task = task;
+      task.start();
+      slot.worker.postMessage(task.request);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const entry: PoolWorker = { worker: createWorker(), task: null };
+    entry.worker.on("message", (message: AnalysisMessage) => {
+      const task = entry.task;
+      if (!task || task.request.jobId !== message.jobId) return;
+      if (message.type !== "progress") entry.task = null;
+      task.receive(message);
+      if (!entry.task) this.dispatch();
+    });
+    // A crashed worker (e.g. out of memory on a huge mesh) fails its task and
+    // is replaced on the next dispatch
+    entry.worker.on("error", (error) => {
+      console.error("Analysis worker crashed:", error);
+    });
+    entry.worker.on("exit", () => {
+      this.workers = this.workers.filter((other) => other !== entry);
+      const task = entry.task;
+      entry.task = null;
+      task?.receive({ type: "error", jobId: task.request.jobId, message: task.crashMessage });
+      this.dispatch();
+    });
+    // After the listeners, which would otherwise ref the worker's port again
+    entry.worker.unref();
+    this.workers.push(entry);
+    return entry;
+  }
+}
+
+// In development the server runs from TypeScript through tsx, so workers
+// register tsx before loading their entry; the production build bundles the
+// worker next to index.js
+function createWorker(): Worker {
+  if (!import.meta.url.endsWith(".ts")) {
+    return new Worker(new URL("./analysis-worker.js", import.meta.url));
+  }
+  const entry = JSON.stringify(new URL("./analysis-worker.ts", import.meta.url).href);
+  return new Worker(
+    `import("tsx/esm/api").then(({ register }) => { register(); return import(${entry}); });`,
+    { eval: true },
+  );
+}
+
+export const analysisPool = new AnalysisPool(Math.max(1, Math.min(os.cpus().length - 1, 4)));
@@ -0,0 +1,54 @@
+import { parentPort } from "worker_threads";
+import type { AnalysisOptions, AnalysisStage, MaterialProperties, ModelAnalysis } from "@shared/analysis";
+import type { OrderItem } from "@shared/schema";
+import { analyze3DModel } from "./analysis";
+import { exportOrderItemGcode, type GcodeExport } from "./gcode-export";
+import type { PrintProfile } from "./print-profiles";
+import type { StoredUpload } from "./uploads";
+
+// Messages between the pool (server/analysis-pool.ts) and its workers
+export interface AnalysisRequest {
+  type: "analysis";
+  jobId: string;
+  file: StoredUpload;
+  options: AnalysisOptions;
+  material: MaterialProperties;
+}
+
+export interface GcodeExportRequest {
+  type: "gcode";
+  jobId: string;
+  item: OrderItem;
+  profile: PrintProfile;
+  overhangAngle: number;
+}
+
+export type WorkerRequest = AnalysisRequest | GcodeExportRequest;
+
+export type AnalysisMessage =
+  | { type: "progress"; jobId: string; stage: AnalysisStage }
+  | { type: "result"; jobId: string; analysis: ModelAnalysis }
+  | { type: "gcode"; jobId: string; result: GcodeExport }
+  | { type: "error"; jobId: string; message: string };
+
+// Workers take one job at a time; the pool never sends another until the
+// previous one has answered
+parentPort?.on("message", async (request: WorkerRequest) => {
+  const { jobId } = request;
+  const send = (message: AnalysisMessage) => parentPort!.postMessage(message);
+  if (request.type === "gcode") {
+    try {
+      const result = await exportOrderItemGcode(request.item, request.profile, request.overhangAngle);
+      send({ type: "gcode", jobId, result });
+    } catch (error: any) {
+      send({ type: "error", jobId, message: error.message || "Failed to export G-code" });
+    }
+    return;
+  }
+  try {
+    const analysis = await analyze3DModel(request.file, request.options, request.material, (stage) => send({ type: "progress", jobId, stage }));
+    send({ type: "result", jobId, analysis });
+  } catch (error: any) {
+    send({ type: "error", jobId, message: error.message || "Failed to analyze model" });
+  }
+});
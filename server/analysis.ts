@@ -0,0 +1,368 @@
+import fs from "fs/promises";
+import path from "path";
+import {
+  formatPrintTime,
+  MM_PER_UNIT,
+  resolveQuality,
+  type AnalysisOptions,
+  type AnalysisStage,
+  type MaterialProperties,
+  type FitCheck,
+  type GcodeAnalysis,
+  type MeshAnalysis,
+  type ModelAnalysis,
+  type ModelDimensions,
+  type ModelUnit,
+  type OrientationMetrics,
+  type ProblemEdges,
+  type RepairSummary,
+  type ScalingSummary,
+} from "@shared/analysis";
+import { PRINTER } from "@shared/printer";
+import { analysisCacheKey } from "./analysis-cache";
+import { describeIssues, diagnoseMesh, findProblemEdges, type MeshDiagnostics } from "./geometry/diagnostics";
+import { checkBuildVolumeFit } from "./geometry/fit";
+import { parseGcode } from "./geometry/gcode";
+import { boundingBox, boxSize, faceCount, meshVolume, surfaceArea, transformMesh, type Mesh } from "./geometry/mesh";
+import { parseObj } from "./geometry/obj";
+import { encodePng } from "./geometry/png";
+import { renderThumbnail } from "./geometry/render";
+import { optimizeOrientation, type OrientationCandidate } from "./geometry/orientation";
+import { copiesPerPlate } from "./geometry/packing";
+import { hasRepairs, repairMesh, type RepairReport } from "./geometry/repair";
+import { parseStl, writeBinaryStl } from "./geometry/stl";
+import { estimatePrintTime, sliceMesh } from "./geometry/slicer";
+import { estimateSupports } from "./geometry/supports";
+import { parse3mf } from "./geometry/threemf";
+import { PRINTER_PROFILES, resolveQualityProfile, slicerSettings } from "./print-profiles";
+import type { StoredUpload } from "./uploads";
+
+// Enough highlighted edges to show where a mesh is broken without bloating
+// the analysis response
+const MAX_PROBLEM_EDGES = 2000;
+
+const MESH_PARSERS: Record<string, (buffer: Buffer) => Mesh> = {
+  ".stl": parseStl,
+  ".obj": parseObj,
+  ".3mf": parse3mf,
+};
+
+export function isGcodeFile(fileName: string): boolean {
+  return path.extname(fileName).toLowerCase() === ".gcode";
+}
+
+// The parts of a multer upload analysis needs
+export type UploadedFile = Pick<Express.Multer.File, "path" | "originalname">;
+
+export type ProgressListener = (stage: AnalysisStage) => void;
+
+export async function analyze3DModel(
+  file: StoredUpload,
+  options: AnalysisOptions,
+  material: MaterialProperties,
+  onProgress: ProgressListener = () => {},
+): Promise<ModelAnalysis> {
+  const analysis = isGcodeFile(file.originalname)
+    ? await analyzeGcode(file, onProgress)
+    : await analyzeMesh(file, options, onProgress);
+  return applyMaterial(analysis, material);
+}
+
+// Weighs the analysed volumes in a material. Nothing else in an analysis
+// depends on it, so a cached result can be re-weighed when the customer
+// switches material instead of being analysed again.
+export function applyMaterial(analysis: ModelAnalysis, material: MaterialProperties): ModelAnalysis {
+  if (analysis.kind === "gcode") {
+    return {
+      ...analysis,
+      weight: round(analysis.volume * material.density),
+      supportWeight: round(analysis.supportVolume * material.density),
+    };
+  }
+  return {
+    ...analysis,
+    weight: round((analysis.print.shellVolume + analysis.print.infillVolume) * material.density),
+    supports: { ...analysis.supports, weight: round(analysis.supports.volume * material.density) },
+  };
+}
+
+// Parses a stored upload; the original name tells us its format
+export async function readMesh(filePath: string, fileName: string): Promise<Mesh> {
+  const ext = path.extname(fileName).toLowerCase();
+  const parse = MESH_PARSERS[ext];
+  if (!parse) {
+    throw new Error(`Unsupported model format: ${ext}`);
+  }
+
+  const mesh = parse(await fs.readFile(filePath));
+  if (faceCount(mesh) === 0) {
+    throw new Error("The uploaded model does not contain any triangles");
+  }
+  return mesh;
+}
+
+// Meshes as they will be printed: scaled to millimetres, then repaired
+export interface PreparedMesh {
+  original: Mesh;
+  mesh: Mesh;
+  report: RepairReport;
+  repaired: boolean;
+  originalDiagnostics: MeshDiagnostics;
+  diagnostics: MeshDiagnostics;
+}
+
+export function prepareMesh(source: Mesh, factor: number): PreparedMesh {
+  const original = factor === 1 ? source : transformMesh(source, [factor, 0, 0, 0, 0, factor, 0, 0, 0, 0, factor, 0]);
+
+  // Issues describe the customer's file; everything else is measured on the
+  // repaired mesh we would actually print
+  const originalDiagnostics = diagnoseMesh(original);
+  const { mesh, report } = repairMesh(original);
+  const repaired = hasRepairs(report);
+  const diagnostics = repaired ? diagnoseMesh(mesh) : originalDiagnostics;
+
+  // Welding can fuse coincident faces of overlapping parts and open up a mesh
+  // that was closed; in that case the customer's file is the better basis
+  if (repaired && originalDiagnostics.watertight && !diagnostics.watertight) {
+    return { original, mesh: original, report, repaired: false, originalDiagnostics, diagnostics: originalDiagnostics };
+  }
+  return { original, mesh, report, repaired, originalDiagnostics, diagnostics };
+}
+
+// Files written by an analysis are named after its cache key, so analysing
+// the upload at another scale or in other units doesn't overwrite them
+function artifactPath(file: StoredUpload, options: AnalysisOptions, suffix: string): string {
+  const name = analysisCacheKey(file, options).replace(/[^\w.-]/g, "_");
+  return path.join(path.dirname(file.path), `${name}${suffix}`);
+}
+
+// Renders the preview sheet shown in order emails and the admin page and
+// stores it at `thumbnailPath`. Returns the thumbnail's file name.
+export async function writeThumbnail(thumbnailPath: string, mesh: Mesh): Promise<string> {
+  await fs.writeFile(thumbnailPath, encodePng(renderThumbnail(mesh)));
+  return path.basename(thumbnailPath);
+}
+
+// Millimetres per file unit times the customer's scale. 3MF coordinates are
+// already converted from the unit the file declares.
+export function scaleFactor(fileName: string, units: ModelUnit, scale: number): number {
+  const declared = path.extname(fileName).toLowerCase() === ".3mf";
+  return (declared ? 1 : MM_PER_UNIT[units]) * (scale / 100);
+}
+
+// Weights are left at zero for applyMaterial
+async function analyzeMesh(file: StoredUpload, options: AnalysisOptions, onProgress: ProgressListener): Promise<MeshAnalysis> {
+  onProgress("parse");
+  const source = await readMesh(file.path, file.originalname);
+  onProgress("repair");
+  const { mesh, report, repaired, originalDiagnostics, diagnostics } = prepareMesh(
+    source,
+    scaleFactor(file.originalname, options.units, options.scale),
+  );
+
+  const repair: RepairSummary = { repaired, changes: repaired ? describeRepairs(report) : [] };
+  if (repaired) {
+    const repairedPath = artifactPath(file, options, ".repaired.stl");
+    await fs.writeFile(repairedPath, writeBinaryStl(mesh));
+    repair.repairedFile = path.basename(repairedPath);
+  }
+
+  const volumeCm3 = meshVolume(mesh) / 1000;
+  const [x, y, z] = boxSize(boundingBox(mesh));
+
+  // Supports and print time are priced in the best orientation we found
+  onProgress("orient");
+  const orientation = optimizeOrientation(mesh, options.overhangAngle, PRINTER.buildVolume);
+  const oriented = transformMesh(mesh, orientation.best.rotation);
+
+  const supports = estimateSupports(oriented, options.overhangAngle);
+  const overhangAreaCm2 = supports.overhangArea / 100;
+  const supportVolumeCm3 = supports.supportVolume / 1000;
+
+  // Print time and the plastic actually laid down, from slicing the oriented
+  // part with our Ender 3 S1 Pro profile at the chosen quality
+  onProgress("slice");
+  const quality = resolveQuality(options);
+  const slicer = slicerSettings({
+    printer: PRINTER_PROFILES[PRINTER.id],
+    quality: resolveQualityProfile(options.quality, options),
+  });
+  const slices = sliceMesh(oriented, slicer);
+  const printEstimate = estimatePrintTime(slices, slicer, supports.supportVolume);
+  const printTimeMinutes = printEstimate.printTime / 60;
+  const shellVolumeCm3 = printEstimate.shellVolume / 1000;
+  const infillVolumeCm3 = printEstimate.infillVolume / 1000;
+  const [footprintX, footprintY] = boxSize(boundingBox(oriented));
+  const footprint = { x: round(footprintX), y: round(footprintY) };
+
+  onProgress("price");
+  const thumbnailFile = await writeThumbnail(artifactPath(file, options, ".thumbnail.png"), mesh);
+
+  return {
+    kind: "mesh",
+    weight: 0,
+    printTime: formatPrintTime(printTimeMinutes),
+    printMinutes: round(printTimeMinutes),
+    layers: printEstimate.layers,
+    plate: {
+      footprint,
+      copiesPerPlate: copiesPerPlate(footprint, PRINTER.buildVolume),
+      // Copies on one plate share every Z move
+      sharedMinutes: round((printEstimate.layers * slicer.layerChangeTime) / 60),
+    },
+    volume: round(volumeCm3),
+    surfaceArea: round(surfaceArea(mesh) / 100),
+    dimensions: { x: round(x), y: round(y), z: round(z) },
+    triangleCount: faceCount(mesh),
+    fit: checkBuildVolumeFit(mesh, PRINTER.buildVolume),
+    watertight: diagnostics.watertight,
+    shells: diagnostics.shells,
+    issues: describeIssues(originalDiagnostics),
+    repair,
+    thumbnailFile,
+    orientation: {
+      rotation: [0, 1, 2, 4, 5, 6, 8, 9, 10].map((i) => parseFloat(orientation.best.rotation[i].toFixed(6))),
+      candidates: orientation.ranked.map(describeOrientation),
+    },
+    supports: {
+      needed: supports.overhangArea > 0,
+      overhangAngle: options.overhangAngle,
+      overhangArea: round(overhangAreaCm2),
+      volume: round(supportVolumeCm3),
+      weight: 0,
+    },
+    scaling: checkScaling(source, file.originalname, options),
+    problemEdges: describeProblemEdges(source, originalDiagnostics),
+    print: {
+      quality: options.quality,
+      layerHeight: quality.layerHeight,
+      walls: quality.walls,
+      infill: quality.infill,
+      shellVolume: round(shellVolumeCm3),
+      infillVolume: round(infillVolumeCm3),
+    },
+  };
+}
+
+// Longest side, in mm, beyond which a part is more likely in the wrong unit
+// than genuinely that size; and the range a suggested unit should land in
+const PLAUSIBLE_SIZE = { min: 5, max: 1000 };
+const TYPICAL_SIZE = { min: 10, max: 300 };
+// Most of our customers model in millimetres, then inches
+const SUGGESTION_ORDER: ModelUnit[] = ["mm", "in", "cm", "m"];
+
+function checkScaling(source: Mesh, fileName: string, options: AnalysisOptions): ScalingSummary {
+  const declaredUnits = path.extname(fileName).toLowerCase() === ".3mf";
+  const units = declaredUnits ? "mm" : options.units;
+  const [x, y, z] = boxSize(boundingBox(source));
+  const longest = Math.max(x, y, z);
+  const inMm = (unit: ModelUnit) => longest * MM_PER_UNIT[unit];
+
+  const plausible = inMm(units) >= PLAUSIBLE_SIZE.min && inMm(units) <= PLAUSIBLE_SIZE.max;
+  const suggestedUnit = plausible || declaredUnits
+    ? undefined
+    : SUGGESTION_ORDER.find((unit) => inMm(unit) >= TYPICAL_SIZE.min && inMm(unit) <= TYPICAL_SIZE.max);
+
+  return {
+    declaredUnits,
+    units,
+    scale: options.scale,
+    sourceSize: { x: round(x, 4), y: round(y, 4), z: round(z, 4) },
+    plausible,
+    suggestedUnit,
+  };
+}
+
+// Sliced files are printed exactly as sent, so we only read them back: no
+// repair, orientation or rotation to fit the bed.
+// Weights are left at zero for applyMaterial
+async function analyzeGcode(file: UploadedFile, onProgress: ProgressListener): Promise<GcodeAnalysis> {
+  onProgress("parse");
+  const stats = parseGcode(await fs.readFile(file.path));
+  onProgress("price");
+  // Priced from the simulated moves on our filament; the file's own summary
+  // comments are only passed on for reference
+  const filamentArea = Math.PI * (PRINTER_PROFILES[PRINTER.id].filamentDiameter / 2) ** 2; // mm²
+  const volumeCm3 = (stats.filamentLength * filamentArea) / 1000;
+  const supportVolumeCm3 = (stats.supportFilamentLength * filamentArea) / 1000;
+  const { header } = stats;
+  const dimensions = {
+    x: round(stats.max[0] - stats.min[0]),
+    y: round(stats.max[1] - stats.min[1]),
+    z: round(stats.max[2] - stats.min[2]),
+  };
+
+  return {
+    kind: "gcode",
+    weight: 0,
+    printTime: formatPrintTime(stats.printTime / 60),
+    printMinutes: round(stats.printTime / 60),
+    layers: stats.layers,
+    // Tool paths are fixed in place, so each copy is printed on its own plate
+    plate: {
+      footprint: { x: dimensions.x, y: dimensions.y },
+      copiesPerPlate: 1,
+      sharedMinutes: 0,
+    },
+    volume: round(volumeCm3),
+    dimensions,
+    fit: checkToolpathFit(dimensions, PRINTER.buildVolume),
+    slicer: stats.slicer,
+    filamentLength: round(stats.filamentLength),
+    supportVolume: round(supportVolumeCm3),
+    supportWeight: 0,
+    slicerEstimate: {
+      printTime: header.printTime !== undefined ? formatPrintTime(header.printTime / 60) : undefined,
+      filamentLength: header.filamentLength !== undefined ? round(header.filamentLength) : undefined,
+      weight: header.filamentWeight !== undefined ? round(header.filamentWeight) : undefined,
+    },
+  };
+}
+
+// Tool paths can't be turned, so the extents must fit as they are
+function checkToolpathFit(size: ModelDimensions, envelope: ModelDimensions): FitCheck {
+  const scale = Math.min(envelope.x / size.x, envelope.y / size.y, envelope.z / size.z);
+  const fits = size.x <= envelope.x && size.y <= envelope.y && size.z <= envelope.z;
+  return {
+    fits,
+    placement: fits ? "as-is" : "too-large",
+    upAxis: "z",
+    rotation: 0,
+    maxScale: Number.isFinite(scale) ? Math.floor(scale * 100) : 100,
+    piecesNeeded: 1,
+  };
+}
+
+// Located on the customer's file before scaling so the viewer can draw them
+// over the model it loaded itself
+function describeProblemEdges(source: Mesh, diagnostics: MeshDiagnostics): ProblemEdges {
+  if (diagnostics.watertight) return { open: [], nonManifold: [], truncated: false };
+  const edges = findProblemEdges(source, MAX_PROBLEM_EDGES);
+  const precise = (values: number[]) => values.map((value) => round(value, 4));
+  return { open: precise(edges.open), nonManifold: precise(edges.nonManifold), truncated: edges.truncated };
+}
+
+function describeOrientation(candidate: OrientationCandidate): OrientationMetrics {
+  const [x, y, z] = candidate.down;
+  return {
+    down: [round(x), round(y), round(z)],
+    supportVolume: round(candidate.supportVolume / 1000),
+    contactArea: round(candidate.contactArea / 100),
+    height: round(candidate.height),
+    score: parseFloat(candidate.score.toFixed(4)),
+  };
+}
+
+function describeRepairs(report: RepairReport): string[] {
+  const changes: string[] = [];
+  if (report.weldedVertices > 0) changes.push(`Welded ${report.weldedVertices} duplicate vertices`);
+  if (report.removedFaces > 0) changes.push(`Removed ${report.removedFaces} degenerate or duplicate faces`);
+  if (report.removedShells > 0) changes.push(`Dropped ${report.removedShells} tiny disconnected shells`);
+  if (report.flippedFaces > 0) changes.push(`Flipped ${report.flippedFaces} faces to unify normals`);
+  if (report.filledHoles > 0) changes.push(`Filled ${report.filledHoles} small holes`);
+  return changes;
+}
+
+function round(value: number, digits = 2): number {
+  return parseFloat(value.toFixed(digits));
+}
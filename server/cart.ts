@@ -0,0 +1,69 @@
+import type { CartChange, CartItem, CartItemWithQuote } from "@shared/cart";
+import type { Material, PriceBook, Quote } from "@shared/schema";
+import { analysisPool, AnalysisQueueFullError } from "./analysis-pool";
+import { getOrderableMaterial, materialProperties } from "./materials";
+import { buildQuote } from "./quotes";
+import { storage } from "./storage";
+import { findUpload, type StoredUpload } from "./uploads";
+
+// A cart item priced under the current price book, ready to be ordered
+export interface RequotedCartItem {
+  item: CartItem;
+  quote: Quote;
+  modelFile: StoredUpload;
+  material: Material;
+}
+
+// Cart items with their quotes, dropping any whose quote is gone
+export async function cartWithQuotes(cart: CartItem[]): Promise<CartItemWithQuote[]> {
+  const items: CartItemWithQuote[] = [];
+  for (const item of cart) {
+    const quote = await storage.getQuote(item.quoteId);
+    if (quote) items.push({ ...item, quote });
+  }
+  return items;
+}
+
+// Re-quotes every item with its original options under the current price
+// book and materials. Items that can no longer be ordered are left out;
+// they and any price that moved are reported as changes.
+export async function revalidateCart(cart: CartItem[]): Promise<{ items: RequotedCartItem[]; changes: CartChange[] }> {
+  const priceBook = await storage.getCurrentPriceBook();
+  const items: RequotedCartItem[] = [];
+  const changes: CartChange[] = [];
+  for (const item of cart) {
+    const previous = await storage.getQuote(item.quoteId);
+    if (!previous) {
+      changes.push({ itemId: item.id, fileName: "A model", previousTotal: "0.00", reason: "Its quote could not be found" });
+      continue;
+    }
+    try {
+      const requoted = await requoteCartItem(item, previous, priceBook);
+      if (requoted.quote.totalCost !== previous.totalCost) {
+        changes.push({ itemId: item.id, fileName: previous.modelFileName, previousTotal: previous.totalCost, newTotal: requoted.quote.totalCost });
+      }
+      items.push(requoted);
+    } catch (error: any) {
+      if (error instanceof AnalysisQueueFullError) throw error;
+      changes.push({ itemId: item.id, fileName: previous.modelFileName, previousTotal: previous.totalCost, reason: error.message });
+    }
+  }
+  return { items, changes };
+}
+
+async function requoteCartItem(item: CartItem, previous: Quote, priceBook: PriceBook): Promise<RequotedCartItem> {
+  const modelFile = await findUpload(previous.fileHash, previous.modelFileName);
+  if (!modelFile) {
+    throw new Error("The file is no longer stored. Please upload it again.");
+  }
+  const material = await getOrderableMaterial(previous.options.material);
+  if (!material.colors.some((entry) => entry.name === item.color)) {
+    throw new Error(`${material.name} is no longer available in ${item.color}`);
+  }
+  const job = await analysisPool.submit(modelFile, previous.options, materialProperties(material)).done;
+  if (!job.result) {
+    throw new Error(job.error || "Failed to analyze model");
+  }
+  const quote = await storage.createQuote(buildQuote(modelFile, job.result, previous.options, priceBook, material));
+  return { item: { ...item, quoteId: quote.id }, quote, modelFile, material };
+}
@@ -0,0 +1,81 @@
+import fs from "fs/promises";
+import path from "path";
+import { formatPrintTime, MODEL_UNITS, type ModelUnit } from "@shared/analysis";
+import type { OrderItem } from "@shared/schema";
+import { prepareMesh, readMesh, scaleFactor } from "./analysis";
+import { writeGcode } from "./geometry/gcode-writer";
+import { boundingBox, multiplyMatrices, transformMesh, type Matrix3x4 } from "./geometry/mesh";
+import { optimizeOrientation } from "./geometry/orientation";
+import { sliceContours } from "./geometry/slicer";
+import { estimateSupports } from "./geometry/supports";
+import { generateToolpaths, type LayerPaths } from "./geometry/toolpath";
+import { slicerSettings, type PrintProfile, type PrinterProfile } from "./print-profiles";
+
+export interface GcodeExport {
+  fileName: string;
+  printTime: string;
+  filamentLength: number; // mm
+  layers: number;
+}
+
+// Slices one model of an order for the print queue and stores the G-code next
+// to the upload as `<item id>.gcode`. The model goes through the same scaling
+// and repair as the quote, is placed in the orientation we priced, turned on
+// the bed as far as it needs to fit (up to the diagonal) and centred.
+// `overhangAngle` is the quote's, in degrees from vertical.
+// Support structures aren't generated, so parts that need them are refused
+// and have to be sliced by hand.
+export async function exportOrderItemGcode(item: OrderItem, profile: PrintProfile, overhangAngle: number): Promise<GcodeExport> {
+  const units: ModelUnit = MODEL_UNITS.find((unit) => unit === item.modelUnits) ?? "mm";
+  const factor = scaleFactor(item.modelFileName, units, parseFloat(item.modelScale ?? "100"));
+  const { mesh } = prepareMesh(await readMesh(item.modelFilePath, item.modelFileName), factor);
+
+  const { bed } = profile.printer;
+  const orientation = optimizeOrientation(mesh, overhangAngle, bed);
+  if (!orientation.best.fits) {
+    throw new Error(`${item.modelFileName} doesn't fit the ${profile.printer.name} build volume in any orientation`);
+  }
+  const rotated = boundingBox(transformMesh(mesh, orientation.best.rotation));
+  const centre: Matrix3x4 = [
+    1, 0, 0, bed.x / 2 - (rotated.min[0] + rotated.max[0]) / 2,
+    0, 1, 0, bed.y / 2 - (rotated.min[1] + rotated.max[1]) / 2,
+    0, 0, 1, -rotated.min[2],
+  ];
+  const placed = transformMesh(mesh, multiplyMatrices(centre, orientation.best.rotation));
+  if (estimateSupports(placed, overhangAngle).overhangArea > 0) {
+    throw new Error(`${item.modelFileName} needs support structures, which G-code export doesn't generate`);
+  }
+
+  const settings = slicerSettings(profile);
+  const contours = sliceContours(placed, settings);
+  const toolpaths = (skirtLoops: number) => generateToolpaths(contours, {
+    lineWidth: settings.lineWidth,
+    perimeters: profile.quality.perimeters,
+    topBottomLayers: profile.quality.topBottomLayers,
+    infillDensity: profile.quality.infillDensity,
+    infillPattern: profile.quality.infillPattern,
+    skirtLoops,
+    skirtDistance: profile.quality.skirtDistance,
+  });
+  // Parts that nearly fill the bed are printed without a skirt
+  let layers = toolpaths(profile.quality.skirtLoops);
+  if (!withinBed(layers, bed)) layers = toolpaths(0);
+  if (!withinBed(layers, bed)) {
+    throw new Error(`Tool paths for ${item.modelFileName} leave the ${profile.printer.name} build volume`);
+  }
+  const output = writeGcode(layers, profile, settings, `PointZero Designs (order ${item.orderId}, ${item.modelFileName})`);
+
+  const fileName = `${item.id}.gcode`;
+  await fs.writeFile(path.join(path.dirname(item.modelFilePath), fileName), output.gcode);
+  return {
+    fileName,
+    printTime: formatPrintTime(output.printTime / 60),
+    filamentLength: parseFloat(output.filamentLength.toFixed(2)),
+    layers: output.layers,
+  };
+}
+
+function withinBed(layers: LayerPaths[], bed: PrinterProfile["bed"]): boolean {
+  return layers.every((layer) => layer.top <= bed.z + 1e-6 && layer.paths.every((path) =>
+    path.points.every(([x, y]) => x >= 0 && x <= bed.x && y >= 0 && y <= bed.y)));
+}
@@ -0,0 +1,321 @@
+import type { MeshIssue } from "@shared/analysis";
+import { boundingBox, boxSize, cross, dot, faceCount, getTriangle, signedVolume, sub, vertexCount, type Mesh, type Vec3 } from "./mesh";
+
+// Self-intersection testing is quadratic in the worst case, so very dense
+// meshes are skipped and the search stops once the answer is clearly "yes".
+const MAX_INTERSECTION_FACES = 200_000;
+const MAX_REPORTED_INTERSECTIONS = 1000;
+const DEGENERATE_AREA = 1e-10; // mm²
+
+export interface MeshDiagnostics {
+  watertight: boolean;
+  shells: number;
+  openEdges: number;
+  nonManifoldEdges: number;
+  degenerateFaces: number;
+  inconsistentEdges: number;
+  inverted: boolean;
+  selfIntersections: number;
+}
+
+export interface EdgeInfo {
+  a: number;
+  b: number;
+  // Faces using the edge, with the direction they traverse it (+1 a→b, -1 b→a)
+  faces: number[];
+  directions: number[];
+}
+
+// Undirected edge table keyed by the vertex pair, shared with mesh repair
+export function buildEdgeMap(mesh: Mesh): Map<number, EdgeInfo> {
+  const edges = new Map<number, EdgeInfo>();
+  const count = vertexCount(mesh);
+  const f = mesh.faces;
+  for (let face = 0; face < f.length / 3; face++) {
+    for (let corner = 0; corner < 3; corner++) {
+      const from = f[face * 3 + corner];
+      const to = f[face * 3 + ((corner + 1) % 3)];
+      if (from === to) continue;
+      const a = Math.min(from, to);
+      const b = Math.max(from, to);
+      const key = a * count + b;
+      let edge = edges.get(key);
+      if (!edge) {
+        edge = { a, b, faces: [], directions: [] };
+        edges.set(key, edge);
+      }
+      edge.faces.push(face);
+      edge.directions.push(from === a ? 1 : -1);
+    }
+  }
+  return edges;
+}
+
+// Open and non-manifold edges as flat [x1, y1, z1, x2, y2, z2, ...] segment
+// lists for highlighting in the viewer, at most `limit` segments of each
+export function findProblemEdges(mesh: Mesh, limit: number): { open: number[]; nonManifold: number[]; truncated: boolean } {
+  const open: number[] = [];
+  const nonManifold: number[] = [];
+  let truncated = false;
+  const v = mesh.vertices;
+  const push = (list: number[], edge: EdgeInfo) => {
+    if (list.length >= limit * 6) {
+      truncated = true;
+      return;
+    }
+    for (const vertex of [edge.a, edge.b]) {
+      list.push(v[vertex * 3], v[vertex * 3 + 1], v[vertex * 3 + 2]);
+    }
+  };
+  buildEdgeMap(mesh).forEach((edge) => {
+    if (edge.faces.length === 1) push(open, edge);
+    else if (edge.faces.length > 2) push(nonManifold, edge);
+  });
+  return { open, nonManifold, truncated };
+}
+
+export function isDegenerateFace(mesh: Mesh, face: number): boolean {
+  const f = mesh.faces;
+  const a = f[face * 3];
+  const b = f[face * 3 + 1];
+  const c = f[face * 3 + 2];
+  if (a === b || b === c || a === c) {
+    return true;
+  }
+  const [p, q, r] = getTriangle(mesh, face);
+  const normal = cross(sub(q, p), sub(r, p));
+  return Math.sqrt(dot(normal, normal)) / 2 < DEGENERATE_AREA;
+}
+
+// Groups faces into connected shells through shared vertices. Returns the
+// shell index of every face.
+export function findShells(mesh: Mesh): { count: number; faceShell: Int32Array } {
+  const parent = new Int32Array(vertexCount(mesh));
+  for (let i = 0; i < parent.length; i++) parent[i] = i;
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+
+  const f = mesh.faces;
+  for (let i = 0; i < f.length; i += 3) {
+    const root = find(f[i]);
+    parent[find(f[i + 1])] = root;
+    parent[find(f[i + 2])] = find(f[i]);
+  }
+
+  const shellIds = new Map<number, number>();
+  const faceShell = new Int32Array(faceCount(mesh));
+  for (let face = 0; face < faceShell.length; face++) {
+    const root = find(f[face * 3]);
+    let id = shellIds.get(root);
+    if (id === undefined) {
+      id = shellIds.size;
+      shellIds.set(root, id);
+    }
+    faceShell[face] = id;
+  }
+  return { count: shellIds.size, faceShell };
+}
+
+export function diagnoseMesh(mesh: Mesh): MeshDiagnostics {
+  let openEdges = 0;
+  let nonManifoldEdges = 0;
+  let inconsistentEdges = 0;
+  for (const edge of Array.from(buildEdgeMap(mesh).values())) {
+    if (edge.faces.length === 1) {
+      openEdges++;
+    } else if (edge.faces.length > 2) {
+      nonManifoldEdges++;
+    } else if (edge.directions[0] === edge.directions[1]) {
+      // Neighbouring faces must walk a shared edge in opposite directions
+      inconsistentEdges++;
+    }
+  }
+
+  let degenerateFaces = 0;
+  for (let face = 0; face < faceCount(mesh); face++) {
+    if (isDegenerateFace(mesh, face)) degenerateFaces++;
+  }
+
+  const watertight = openEdges === 0 && nonManifoldEdges === 0;
+  return {
+    watertight,
+    shells: findShells(mesh).count,
+    openEdges,
+    nonManifoldEdges,
+    degenerateFaces,
+    inconsistentEdges,
+    inverted: watertight && inconsistentEdges === 0 && signedVolume(mesh) < 0,
+    selfIntersections: countSelfIntersections(mesh),
+  };
+}
+
+export function describeIssues(diagnostics: MeshDiagnostics): MeshIssue[] {
+  const issues: MeshIssue[] = [];
+  if (diagnostics.openEdges > 0) {
+    issues.push({
+      code: "open-edges",
+      severity: "error",
+      count: diagnostics.openEdges,
+      message: `${diagnostics.openEdges} open edges: the mesh has holes, so its volume and price may be wrong.`,
+    });
+  }
+  if (diagnostics.nonManifoldEdges > 0) {
+    issues.push({
+      code: "non-manifold-edges",
+      severity: "warning",
+      count: diagnostics.nonManifoldEdges,
+      message: `${diagnostics.nonManifoldEdges} non-manifold edges are shared by more than two faces.`,
+    });
+  }
+  if (diagnostics.inconsistentEdges > 0) {
+    issues.push({
+      code: "inconsistent-winding",
+      severity: "warning",
+      count: diagnostics.inconsistentEdges,
+      message: `${diagnostics.inconsistentEdges} edges join faces with flipped normals.`,
+    });
+  }
+  if (diagnostics.inverted) {
+    issues.push({
+      code: "inverted-normals",
+      severity: "warning",
+      count: 1,
+      message: "All normals point inwards; the model is inside out.",
+    });
+  }
+  if (diagnostics.selfIntersections > 0) {
+    const count = diagnostics.selfIntersections >= MAX_REPORTED_INTERSECTIONS
+      ? `At least ${MAX_REPORTED_INTERSECTIONS}`
+      : `${diagnostics.selfIntersections}`;
+    issues.push({
+      code: "self-intersections",
+      severity: "warning",
+      count: diagnostics.selfIntersections,
+      message: `${count} pairs of intersecting faces; overlapping shells are counted twice in the volume.`,
+    });
+  }
+  if (diagnostics.degenerateFaces > 0) {
+    issues.push({
+      code: "degenerate-faces",
+      severity: "info",
+      count: diagnostics.degenerateFaces,
+      message: `${diagnostics.degenerateFaces} faces have zero area.`,
+    });
+  }
+  return issues;
+}
+
+// Counts pairs of faces that cross each other without sharing a vertex.
+// Faces are bucketed in a uniform grid; each pair is tested only in the
+// lowest grid cell common to both bounding boxes so it is seen once.
+function countSelfIntersections(mesh: Mesh): number {
+  const count = faceCount(mesh);
+  if (count < 2 || count > MAX_INTERSECTION_FACES) {
+    return 0;
+  }
+
+  // Cells no smaller than the average face keep large faces from spanning
+  // thousands of cells
+  let faceExtent = 0;
+  for (let face = 0; face < count; face++) {
+    const [a, b, c] = getTriangle(mesh, face);
+    for (let axis = 0; axis < 3; axis++) {
+      faceExtent += Math.max(a[axis], b[axis], c[axis]) - Math.min(a[axis], b[axis], c[axis]);
+    }
+  }
+  const box = boundingBox(mesh);
+  const cellSize = Math.max(
+    Math.max(...boxSize(box)) / Math.cbrt(count),
+    faceExtent / (count * 3),
+    1e-6,
+  );
+  const cellOf = (value: number, axis: number) => Math.floor((value - box.min[axis]) / cellSize);
+
+  const bounds = new Int32Array(count * 6);
+  const grid = new Map<string, number[]>();
+  for (let face = 0; face < count; face++) {
+    const [a, b, c] = getTriangle(mesh, face);
+    for (let axis = 0; axis < 3; axis++) {
+      bounds[face * 6 + axis] = cellOf(Math.min(a[axis], b[axis], c[axis]), axis);
+      bounds[face * 6 + 3 + axis] = cellOf(Math.max(a[axis], b[axis], c[axis]), axis);
+    }
+    for (let x = bounds[face * 6]; x <= bounds[face * 6 + 3]; x++) {
+      for (let y = bounds[face * 6 + 1]; y <= bounds[face * 6 + 4]; y++) {
+        for (let z = bounds[face * 6 + 2]; z <= bounds[face * 6 + 5]; z++) {
+          const key = `${x},${y},${z}`;
+          const cell = grid.get(key);
+          if (cell) cell.push(face);
+          else grid.set(key, [face]);
+        }
+      }
+    }
+  }
+
+  const f = mesh.faces;
+  const sharesVertex = (p: number, q: number) => {
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        if (f[p * 3 + i] === f[q * 3 + j]) return true;
+      }
+    }
+    return false;
+  };
+
+  let intersections = 0;
+  for (const [key, faces] of Array.from(grid.entries())) {
+    const cell = key.split(",").map(Number);
+    for (let i = 0; i < faces.length; i++) {
+      for (let j = i + 1; j < faces.length; j++) {
+        const p = faces[i];
+        const q = faces[j];
+        let owner = true;
+        for (let axis = 0; axis < 3 && owner; axis++) {
+          const lo = Math.max(bounds[p * 6 + axis], bounds[q * 6 + axis]);
+          const hi = Math.min(bounds[p * 6 + 3 + axis], bounds[q * 6 + 3 + axis]);
+          owner = lo <= hi && lo === cell[axis];
+        }
+        if (!owner || sharesVertex(p, q)) continue;
+        if (trianglesIntersect(getTriangle(mesh, p), getTriangle(mesh, q))) {
+          intersections++;
+          if (intersections >= MAX_REPORTED_INTERSECTIONS) return intersections;
+        }
+      }
+    }
+  }
+  return intersections;
+}
+
+function trianglesIntersect(t: [Vec3, Vec3, Vec3], u: [Vec3, Vec3, Vec3]): boolean {
+  for (let i = 0; i < 3; i++) {
+    if (segmentHitsTriangle(t[i], t[(i + 1) % 3], u) || segmentHitsTriangle(u[i], u[(i + 1) % 3], t)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Möller–Trumbore restricted to the open segment and the triangle interior,
+// so faces that merely touch are not reported
+function segmentHitsTriangle(start: Vec3, end: Vec3, [a, b, c]: [Vec3, Vec3, Vec3]): boolean {
+  const epsilon = 1e-9;
+  const direction = sub(end, start);
+  const edge1 = sub(b, a);
+  const edge2 = sub(c, a);
+  const p = cross(direction, edge2);
+  const det = dot(edge1, p);
+  if (Math.abs(det) < epsilon) return false;
+  const inverse = 1 / det;
+  const s = sub(start, a);
+  const u = dot(s, p) * inverse;
+  if (u <= epsilon || u >= 1 - epsilon) return false;
+  const q = cross(s, edge1);
+  const v = dot(direction, q) * inverse;
+  if (v <= epsilon || u + v >= 1 - epsilon) return false;
+  const t = dot(edge2, q) * inverse;
+  return t > epsilon && t < 1 - epsilon;
+}
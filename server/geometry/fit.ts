@@ -0,0 +1,185 @@
+import type { FitCheck, ModelDimensions } from "@shared/analysis";
+import type { Mesh } from "./mesh";
+
+type Point = [number, number];
+type Axis = "x" | "y" | "z";
+
+const AXES: Axis[] = ["z", "x", "y"];
+const ANGLE_STEP = 1; // degrees
+const EPSILON = 1e-6;
+
+interface Footprint {
+  upAxis: Axis;
+  hull: Point[];
+  height: number;
+}
+
+interface Candidate {
+  upAxis: Axis;
+  rotation: number;
+  scale: number; // largest scale factor at which this placement fits
+}
+
+// Checks whether the mesh fits the build volume. Placements are tried in the
+// order a customer would least mind: as exported, turned 90° or laid on a
+// side, and finally turned to an arbitrary angle so the part runs along the
+// bed diagonal.
+export function checkBuildVolumeFit(mesh: Mesh, envelope: ModelDimensions): FitCheck {
+  const footprints: Footprint[] = AXES.map((upAxis) => ({
+    upAxis,
+    hull: projectedHull(mesh, upAxis),
+    height: heightAlong(mesh, upAxis),
+  }));
+  const candidates = footprints.map((footprint) => bestPlacement(footprint, envelope));
+
+  const [upright] = footprints;
+  if (fitAtAngle(upright.hull, 0, upright.height, envelope) >= 1 - EPSILON) {
+    return result("as-is", "z", 0, candidates);
+  }
+
+  for (const { upAxis, hull, height } of footprints) {
+    for (const angle of [0, 90]) {
+      if (fitAtAngle(hull, angle, height, envelope) >= 1 - EPSILON) {
+        return result("rotated", upAxis, angle, candidates);
+      }
+    }
+  }
+
+  const diagonal = candidates.find((candidate) => candidate.scale >= 1 - EPSILON);
+  if (diagonal) {
+    return result("diagonal", diagonal.upAxis, diagonal.rotation, candidates);
+  }
+
+  const best = candidates.reduce((a, b) => (b.scale > a.scale ? b : a));
+  return result("too-large", best.upAxis, best.rotation, candidates, piecesNeeded(mesh, envelope));
+}
+
+// Smallest turn about Z, in degrees, at which the mesh as it stands fits the
+// build volume: none, a quarter turn, then any angle. Null if none fits.
+export function fitRotation(mesh: Mesh, envelope: ModelDimensions): number | null {
+  // The bounding box settles most parts without building the hull
+  const [x, y, z] = (["x", "y", "z"] as Axis[]).map((axis) => heightAlong(mesh, axis));
+  if (z > envelope.z + EPSILON) return null;
+  if (x <= envelope.x + EPSILON && y <= envelope.y + EPSILON) return 0;
+  if (y <= envelope.x + EPSILON && x <= envelope.y + EPSILON) return 90;
+  const footprint: Footprint = { upAxis: "z", hull: projectedHull(mesh, "z"), height: z };
+  const best = bestPlacement(footprint, envelope);
+  return best.scale >= 1 - EPSILON ? best.rotation : null;
+}
+
+function result(
+  placement: FitCheck["placement"],
+  upAxis: Axis,
+  rotation: number,
+  candidates: Candidate[],
+  pieces = 1,
+): FitCheck {
+  const maxScale = Math.max(...candidates.map((candidate) => candidate.scale));
+  return {
+    fits: placement !== "too-large",
+    placement,
+    upAxis,
+    rotation,
+    maxScale: Math.floor(maxScale * 100),
+    piecesNeeded: pieces,
+  };
+}
+
+function bestPlacement({ upAxis, hull, height }: Footprint, envelope: ModelDimensions): Candidate {
+  let best: Candidate = { upAxis, rotation: 0, scale: 0 };
+  for (let angle = 0; angle < 180; angle += ANGLE_STEP) {
+    const scale = fitAtAngle(hull, angle, height, envelope);
+    if (scale > best.scale + EPSILON) {
+      best = { upAxis, rotation: angle, scale };
+    }
+  }
+  return best;
+}
+
+// Largest scale factor at which the footprint, turned by `angle`, and the
+// height both fit the envelope
+function fitAtAngle(hull: Point[], angle: number, height: number, envelope: ModelDimensions): number {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  let minU = Infinity;
+  let maxU = -Infinity;
+  let minV = Infinity;
+  let maxV = -Infinity;
+  for (const [a, b] of hull) {
+    const u = a * cos - b * sin;
+    const v = a * sin + b * cos;
+    minU = Math.min(minU, u);
+    maxU = Math.max(maxU, u);
+    minV = Math.min(minV, v);
+    maxV = Math.max(maxV, v);
+  }
+  return Math.min(
+    ratio(envelope.x, maxU - minU),
+    ratio(envelope.y, maxV - minV),
+    ratio(envelope.z, height),
+  );
+}
+
+function ratio(available: number, needed: number): number {
+  return needed <= EPSILON ? Infinity : available / needed;
+}
+
+// Splitting along the bounding box: the model's extents sorted against the
+// envelope's, so the longest side runs along the longest printer axis
+function piecesNeeded(mesh: Mesh, envelope: ModelDimensions): number {
+  const size = (["x", "y", "z"] as Axis[]).map((axis) => heightAlong(mesh, axis)).sort((a, b) => b - a);
+  const limits = [envelope.x, envelope.y, envelope.z].sort((a, b) => b - a);
+  return size.reduce((pieces, extent, i) => pieces * Math.max(1, Math.ceil(extent / limits[i] - EPSILON)), 1);
+}
+
+function axisIndex(axis: Axis): number {
+  return axis === "x" ? 0 : axis === "y" ? 1 : 2;
+}
+
+function heightAlong(mesh: Mesh, axis: Axis): number {
+  const offset = axisIndex(axis);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = offset; i < mesh.vertices.length; i += 3) {
+    min = Math.min(min, mesh.vertices[i]);
+    max = Math.max(max, mesh.vertices[i]);
+  }
+  return max - min;
+}
+
+// Convex hull (Andrew's monotone chain) of the vertices projected onto the
+// plane perpendicular to `upAxis`
+function projectedHull(mesh: Mesh, upAxis: Axis): Point[] {
+  const up = axisIndex(upAxis);
+  const a = (up + 1) % 3;
+  const b = (up + 2) % 3;
+  const points: Point[] = [];
+  for (let i = 0; i < mesh.vertices.length; i += 3) {
+    points.push([mesh.vertices[i + a], mesh.vertices[i + b]]);
+  }
+  points.sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+  if (points.length < 3) {
+    return points;
+  }
+
+  const turn = (o: Point, p: Point, q: Point) => (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0]);
+  const lower: Point[] = [];
+  for (const point of points) {
+    while (lower.length >= 2 && turn(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+  const upper: Point[] = [];
+  for (let i = points.length - 1; i >= 0; i--) {
+    const point = points[i];
+    while (upper.length >= 2 && turn(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
@@ -0,0 +1,139 @@
+import type { PrintProfile } from "../print-profiles";
+import { moveTime, type SlicerProfile } from "./slicer";
+import type { LayerPaths, PathRole } from "./toolpath";
+
+export interface GcodeOutput {
+  gcode: string;
+  printTime: number; // seconds
+  filamentLength: number; // mm
+  layers: number;
+}
+
+type Point = [number, number];
+
+// Writes Marlin G-code with relative extrusion (M83). Summary comments use
+// PrusaSlicer's wording so the file reads back through parseGcode like any
+// customer-sliced upload.
+export function writeGcode(
+  layers: LayerPaths[],
+  profile: PrintProfile,
+  settings: SlicerProfile,
+  title = "PointZero Designs",
+): GcodeOutput {
+  const { printer, material } = profile;
+  const filamentArea = Math.PI * (printer.filamentDiameter / 2) ** 2;
+  const body: string[] = [];
+  let printTime = 0;
+  let filamentLength = 0;
+  let position: Point | null = null;
+  let retracted = false;
+
+  const travel = (to: Point) => {
+    const distance = position ? Math.hypot(to[0] - position[0], to[1] - position[1]) : Infinity;
+    if (distance < 1e-3) return;
+    if (distance > printer.retractMinTravel && !retracted) {
+      body.push(`G1 E${(-printer.retractLength).toFixed(5)} F${printer.retractSpeed * 60}`);
+      printTime += printer.retractLength / printer.retractSpeed;
+      retracted = true;
+    }
+    body.push(`G0 X${fmt(to[0])} Y${fmt(to[1])} F${settings.travelSpeed * 60}`);
+    if (position) printTime += moveTime(distance, settings.travelSpeed, distance, settings.acceleration);
+    position = to;
+  };
+
+  const extrude = (to: Point, height: number, speed: number) => {
+    if (!position) return;
+    if (retracted) {
+      body.push(`G1 E${printer.retractLength.toFixed(5)} F${printer.retractSpeed * 60}`);
+      printTime += printer.retractLength / printer.retractSpeed;
+      retracted = false;
+    }
+    const distance = Math.hypot(to[0] - position[0], to[1] - position[1]);
+    const e = (distance * settings.lineWidth * height) / filamentArea;
+    body.push(`G1 X${fmt(to[0])} Y${fmt(to[1])} E${e.toFixed(5)} F${speed * 60}`);
+    printTime += moveTime(distance, speed, distance, settings.acceleration);
+    filamentLength += e;
+    position = to;
+  };
+
+  layers.forEach((layer, index) => {
+    body.push(`;LAYER:${index}`);
+    body.push(`G1 Z${fmt(layer.top)} F600`);
+    printTime += settings.layerChangeTime;
+    // Fan stays off on the first layer for bed adhesion
+    if (index === 1 && material.fanSpeed > 0) body.push(`M106 S${material.fanSpeed}`);
+
+    let role: PathRole | null = null;
+    for (const path of layer.paths) {
+      if (path.points.length < 2) continue;
+      if (path.role !== role) {
+        body.push(`;TYPE:${path.role}`);
+        role = path.role;
+      }
+      const speed = index === 0 ? settings.firstLayerSpeed : pathSpeed(path.role, settings);
+      travel(path.points[0]);
+      for (let i = 1; i < path.points.length; i++) extrude(path.points[i], layer.height, speed);
+      if (path.closed) extrude(path.points[0], layer.height, speed);
+    }
+  });
+
+  const fill = (script: string) => script
+    .replace(/\{bed_temperature\}/g, String(material.bedTemperature))
+    .replace(/\{nozzle_temperature\}/g, String(material.nozzleTemperature))
+    .replace(/\{bed_y\}/g, String(printer.bed.y));
+
+  const weight = (filamentLength * filamentArea / 1000) * material.density;
+  const header = [
+    `; generated by ${title}`,
+    `; printer = ${printer.name}`,
+    `; material = ${material.name}`,
+    `; quality = ${profile.quality.name}`,
+    `; layer_height = ${settings.layerHeight}`,
+    `; filament_diameter = ${printer.filamentDiameter}`,
+    `; filament_density = ${material.density}`,
+    `; filament used [mm] = ${filamentLength.toFixed(2)}`,
+    `; filament used [g] = ${weight.toFixed(2)}`,
+    `; estimated printing time (normal mode) = ${formatDuration(printTime)}`,
+  ];
+
+  const gcode = [
+    ...header,
+    "",
+    "G21",
+    "G90",
+    // After G90, which Marlin also applies to the extruder
+    "M83 ; relative extrusion",
+    "M107",
+    fill(printer.startGcode),
+    ...body,
+    fill(printer.endGcode),
+    "",
+  ].join("\n");
+
+  return { gcode, printTime, filamentLength, layers: layers.length };
+}
+
+function pathSpeed(role: PathRole, settings: SlicerProfile): number {
+  switch (role) {
+    case "skirt":
+    case "perimeter":
+      return settings.perimeterSpeed;
+    case "solid-infill":
+      return settings.solidInfillSpeed;
+    case "infill":
+      return settings.infillSpeed;
+  }
+}
+
+function fmt(value: number): string {
+  return parseFloat(value.toFixed(3)).toString();
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const parts = [days && `${days}d`, (days || hours) && `${hours}h`, `${minutes}m`, `${total % 60}s`];
+  return parts.filter(Boolean).join(" ");
+}
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseGcode } from "./gcode";
+
+// Two layers as Cura writes them: a skirt, walls and a support line, absolute
+// extrusion reset with G92, then relative extrusion and a clockwise arc
+const CURA = `;FLAVOR:Marlin
+;TIME:600
+;Filament used: 0.5m
+;Layer height: 0.2
+;LAYER_COUNT:2
+;Generated with Cura_SteamEngine 5.4.0
+G21
+G90
+M82
+G28
+G92 E0
+;LAYER:0
+;TYPE:SKIRT
+G1 Z0.2 F3000
+G1 X0 Y0
+G1 X100 Y0 E5 F1200
+;TYPE:WALL-OUTER
+G0 X40 Y40
+G1 X60 Y40 E6
+G1 X60 Y60 E7
+;TYPE:SUPPORT
+G1 X50 Y50 E8
+G92 E0
+;LAYER:1
+;TYPE:WALL-OUTER
+G1 Z0.4
+M83
+G1 X40 Y60 E1
+G2 X40 Y40 I0 J-10 E2 ; round the right-hand side, out to X50
+`;
+
+test("a sliced file is measured by the part's own extrusion", () => {
+  const stats = parseGcode(Buffer.from(CURA));
+
+  assert.equal(stats.slicer, "Cura 5.4.0");
+  assert.equal(stats.filamentLength, 11);
+  assert.equal(stats.supportFilamentLength, 1);
+  assert.equal(stats.layers, 2);
+  // The skirt out to X100 isn't part of the model
+  assert.deepEqual(stats.min, [40, 40, 0.2]);
+  assert.deepEqual(stats.max, [60, 60, 0.4]);
+  assert.ok(stats.printTime > 0);
+  assert.deepEqual(stats.header, { slicer: "Cura 5.4.0", printTime: 600, filamentLength: 500, layerHeight: 0.2, layers: 2 });
+});
+
+test("files without feature markers count all extrusion, in the file's units", () => {
+  const stats = parseGcode(Buffer.from("G20\nG1 Z0.01\nG1 X1 Y0 E0.1\n"));
+
+  assert.equal(stats.filamentLength, 2.54);
+  assert.deepEqual(stats.max, [25.4, 0, 0.254]);
+  assert.deepEqual(stats.header, {});
+});
+
+test("files that never extrude are rejected", () => {
+  const rejected = /no extrusion moves found/;
+  assert.throws(() => parseGcode(Buffer.from("")), rejected);
+  assert.throws(() => parseGcode(Buffer.from("solid part\nfacet normal 0 0 1\n")), rejected);
+  // Travel and retraction only
+  assert.throws(() => parseGcode(Buffer.from("G28\nG1 X10 Y10 Z5 F3000\nG1 E-2\n")), rejected);
+});
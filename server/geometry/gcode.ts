@@ -0,0 +1,321 @@
+import { DEFAULT_SLICER_PROFILE, moveTime } from "./slicer";
+
+const DEFAULT_FEEDRATE = 1500; // mm/min, Marlin's usual power-on value
+const ARC_SEGMENT = 1; // mm, resolution used to bound arcs
+// Features that print something other than the part: start and end scripts,
+// purge and wipe lines, skirts and brims
+const NON_PART_FEATURE = /custom|purge|prime|wipe|skirt|brim/;
+
+export interface GcodeStats {
+  slicer?: string;
+  filamentLength: number; // mm of filament consumed
+  supportFilamentLength: number; // mm spent on support structures
+  layers: number; // heights the part is extruded at
+  // Extents of the part's extrusion
+  min: [number, number, number];
+  max: [number, number, number];
+  printTime: number; // seconds
+  // What the file's summary comments claim. The customer can edit these, so
+  // they are shown for reference and never priced.
+  header: SlicerHeader;
+}
+
+export interface SlicerHeader {
+  slicer?: string;
+  printTime?: number; // seconds
+  filamentLength?: number; // mm
+  filamentWeight?: number; // g
+  layers?: number;
+  layerHeight?: number; // mm
+}
+
+// Reads a sliced G-code file: simulates the moves (absolute and relative
+// positioning and extrusion, G92 resets, G2/G3 arcs) to measure filament,
+// extents and time, and picks up the summary comments PrusaSlicer, Cura and
+// Orca/Bambu Studio write. Once the file marks its features (;TYPE: or
+// ; FEATURE:), extents and layers only count the part's own extrusion.
+export function parseGcode(buffer: Buffer): GcodeStats {
+  const text = buffer.toString("utf8");
+  const header: SlicerHeader = {};
+  const bounds = emptyBounds();
+  const partBounds = emptyBounds();
+
+  const position = [0, 0, 0];
+  let e = 0;
+  let absolutePosition = true;
+  let absoluteExtrusion = true;
+  let unitScale = 1; // G20 switches to inches
+  let feedrate = DEFAULT_FEEDRATE;
+  let feature: string | undefined; // unset until the first feature marker
+  let filamentLength = 0;
+  let supportFilamentLength = 0;
+  let printTime = 0;
+  const layerHeights = new Set<number>();
+  const partLayerHeights = new Set<number>();
+
+  const isPart = () => feature !== undefined && !NON_PART_FEATURE.test(feature);
+  const extend = (x: number, y: number, z: number) => {
+    extendBounds(bounds, x, y, z);
+    if (isPart()) extendBounds(partBounds, x, y, z);
+  };
+
+  let lineStart = 0;
+  while (lineStart < text.length) {
+    let lineEnd = text.indexOf("\n", lineStart);
+    if (lineEnd === -1) lineEnd = text.length;
+    const raw = text.slice(lineStart, lineEnd).trim();
+    lineStart = lineEnd + 1;
+    if (raw.length === 0) continue;
+
+    const commentStart = raw.indexOf(";");
+    if (commentStart >= 0) {
+      const comment = raw.slice(commentStart + 1).trim();
+      readHeaderComment(comment, header);
+      const type = /^(?:TYPE|FEATURE):\s*(.+)$/i.exec(comment);
+      if (type) feature = type[1].toLowerCase();
+    }
+    const code = (commentStart >= 0 ? raw.slice(0, commentStart) : raw).replace(/\(.*?\)/g, "").trim().toUpperCase();
+    if (code.length === 0) continue;
+
+    const words: Record<string, number> = {};
+    const wordPattern = /([A-Z])\s*([-+]?(?:\d+\.?\d*|\.\d+))/g;
+    let word: RegExpExecArray | null;
+    while ((word = wordPattern.exec(code)) !== null) {
+      if (!(word[1] in words)) words[word[1]] = parseFloat(word[2]);
+    }
+    const command = /^([GM])\s*(\d+)/.exec(code);
+    if (!command) continue;
+    const name = `${command[1]}${parseInt(command[2], 10)}`;
+
+    switch (name) {
+      case "G0":
+      case "G1":
+      case "G2":
+      case "G3": {
+        if (words.F !== undefined) feedrate = words.F * unitScale;
+        const target = [0, 1, 2].map((axis) => {
+          const value = words["XYZ"[axis]];
+          if (value === undefined) return position[axis];
+          return absolutePosition ? value * unitScale : position[axis] + value * unitScale;
+        });
+        let extruded = 0;
+        if (words.E !== undefined) {
+          const value = words.E * unitScale;
+          extruded = absoluteExtrusion ? value - e : value;
+          e = absoluteExtrusion ? value : e + value;
+        }
+
+        let distance: number;
+        if (name === "G2" || name === "G3") {
+          distance = traceArc(position, target, words, unitScale, name === "G2", extruded > 0 ? extend : undefined);
+        } else {
+          distance = Math.hypot(target[0] - position[0], target[1] - position[1], target[2] - position[2]);
+          if (extruded > 0) {
+            extend(position[0], position[1], position[2]);
+            extend(target[0], target[1], target[2]);
+          }
+        }
+
+        if (extruded > 0 && distance > 0) {
+          const height = Math.round(target[2] * 1000) / 1000;
+          layerHeights.add(height);
+          if (isPart()) partLayerHeights.add(height);
+          if (feature?.includes("support")) supportFilamentLength += extruded;
+        }
+        filamentLength += extruded;
+
+        const speed = feedrate / 60;
+        if (distance > 0) {
+          printTime += moveTime(distance, speed, distance, DEFAULT_SLICER_PROFILE.acceleration);
+        } else if (extruded !== 0) {
+          // Retract or prime without movement
+          printTime += Math.abs(extruded) / speed;
+        }
+        position[0] = target[0];
+        position[1] = target[1];
+        position[2] = target[2];
+        break;
+      }
+      case "G4":
+        printTime += words.S !== undefined ? words.S : (words.P ?? 0) / 1000;
+        break;
+      case "G20":
+        unitScale = 25.4;
+        break;
+      case "G21":
+        unitScale = 1;
+        break;
+      case "G28": {
+        // Homes the listed axes, or all of them; the exact endstop positions
+        // don't matter for the statistics
+        const homed = [0, 1, 2].filter((axis) => words["XYZ"[axis]] !== undefined);
+        for (const axis of homed.length > 0 ? homed : [0, 1, 2]) position[axis] = 0;
+        break;
+      }
+      case "G90":
+        absolutePosition = true;
+        absoluteExtrusion = true;
+        break;
+      case "G91":
+        absolutePosition = false;
+        absoluteExtrusion = false;
+        break;
+      case "G92":
+        if (words.X !== undefined) position[0] = words.X * unitScale;
+        if (words.Y !== undefined) position[1] = words.Y * unitScale;
+        if (words.Z !== undefined) position[2] = words.Z * unitScale;
+        if (words.E !== undefined) e = words.E * unitScale;
+        break;
+      case "M82":
+        absoluteExtrusion = true;
+        break;
+      case "M83":
+        absoluteExtrusion = false;
+        break;
+    }
+  }
+
+  if (bounds.min[0] === Infinity) {
+    throw new Error("Invalid G-code file: no extrusion moves found");
+  }
+
+  // Files without feature markers are measured by all of their extrusion
+  const marked = partBounds.min[0] !== Infinity;
+  return {
+    slicer: header.slicer,
+    filamentLength: Math.max(0, filamentLength),
+    supportFilamentLength: Math.max(0, supportFilamentLength),
+    layers: (marked ? partLayerHeights : layerHeights).size,
+    min: marked ? partBounds.min : bounds.min,
+    max: marked ? partBounds.max : bounds.max,
+    printTime,
+    header,
+  };
+}
+
+interface Bounds {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+function emptyBounds(): Bounds {
+  return { min: [Infinity, Infinity, Infinity], max: [-Infinity, -Infinity, -Infinity] };
+}
+
+function extendBounds({ min, max }: Bounds, x: number, y: number, z: number) {
+  min[0] = Math.min(min[0], x);
+  min[1] = Math.min(min[1], y);
+  min[2] = Math.min(min[2], z);
+  max[0] = Math.max(max[0], x);
+  max[1] = Math.max(max[1], y);
+  max[2] = Math.max(max[2], z);
+}
+
+// Walks a G2 (clockwise) or G3 arc in the XY plane, given either the centre
+// offset (I/J) or radius (R), and returns its length
+function traceArc(
+  start: number[],
+  end: number[],
+  words: Record<string, number>,
+  unitScale: number,
+  clockwise: boolean,
+  extend?: (x: number, y: number, z: number) => void,
+): number {
+  let cx: number;
+  let cy: number;
+  if (words.I !== undefined || words.J !== undefined) {
+    cx = start[0] + (words.I ?? 0) * unitScale;
+    cy = start[1] + (words.J ?? 0) * unitScale;
+  } else if (words.R !== undefined) {
+    // Centre on the perpendicular bisector; a negative R picks the long way round
+    const r = words.R * unitScale;
+    const dx = end[0] - start[0];
+    const dy = end[1] - start[1];
+    const chord = Math.hypot(dx, dy);
+    if (chord === 0 || Math.abs(r) < chord / 2) {
+      return Math.hypot(dx, dy, end[2] - start[2]);
+    }
+    const offset = Math.sqrt(r * r - (chord * chord) / 4) * ((clockwise ? 1 : -1) * (r > 0 ? 1 : -1));
+    cx = (start[0] + end[0]) / 2 - (dy / chord) * offset;
+    cy = (start[1] + end[1]) / 2 + (dx / chord) * offset;
+  } else {
+    return Math.hypot(end[0] - start[0], end[1] - start[1], end[2] - start[2]);
+  }
+
+  const radius = Math.hypot(start[0] - cx, start[1] - cy);
+  const startAngle = Math.atan2(start[1] - cy, start[0] - cx);
+  const endAngle = Math.atan2(end[1] - cy, end[0] - cx);
+  let sweep = endAngle - startAngle;
+  if (clockwise && sweep >= 0) sweep -= 2 * Math.PI;
+  if (!clockwise && sweep <= 0) sweep += 2 * Math.PI;
+
+  if (extend) {
+    const steps = Math.max(1, Math.ceil((Math.abs(sweep) * radius) / ARC_SEGMENT));
+    for (let i = 0; i <= steps; i++) {
+      const angle = startAngle + (sweep * i) / steps;
+      extend(cx + radius * Math.cos(angle), cy + radius * Math.sin(angle), start[2] + ((end[2] - start[2]) * i) / steps);
+    }
+  }
+  return Math.hypot(Math.abs(sweep) * radius, end[2] - start[2]);
+}
+
+function readHeaderComment(comment: string, header: SlicerHeader) {
+  let match: RegExpExecArray | null;
+
+  if ((match = /^Generated with Cura_SteamEngine\s+(\S+)/i.exec(comment))) {
+    header.slicer = `Cura ${match[1]}`;
+  } else if (!header.slicer) {
+    if ((match = /^generated by\s+(.+?)(?:\s+on\s+\d.*)?$/i.exec(comment))) {
+      header.slicer = match[1];
+    } else if (/^FLAVOR:/i.test(comment)) {
+      header.slicer = "Cura";
+    }
+  }
+
+  // PrusaSlicer / SuperSlicer
+  if ((match = /^estimated printing time \(normal mode\)\s*=\s*(.+)$/i.exec(comment))) {
+    header.printTime = parseDuration(match[1]);
+  } else if ((match = /^filament used \[mm\]\s*=\s*([\d.]+)/i.exec(comment))) {
+    header.filamentLength = parseFloat(match[1]);
+  } else if ((match = /^filament used \[g\]\s*=\s*([\d.]+)/i.exec(comment))) {
+    header.filamentWeight = parseFloat(match[1]);
+  } else if ((match = /^layer_height\s*=\s*([\d.]+)/i.exec(comment))) {
+    header.layerHeight = parseFloat(match[1]);
+  }
+
+  // Cura
+  else if ((match = /^TIME:\s*(\d+)/.exec(comment))) {
+    header.printTime = parseInt(match[1], 10);
+  } else if ((match = /^Filament used:\s*([\d.]+)m/i.exec(comment))) {
+    header.filamentLength = parseFloat(match[1]) * 1000;
+  } else if ((match = /^Layer height:\s*([\d.]+)/i.exec(comment))) {
+    header.layerHeight = parseFloat(match[1]);
+  } else if ((match = /^LAYER_COUNT:\s*(\d+)/.exec(comment))) {
+    header.layers = parseInt(match[1], 10);
+  }
+
+  // Orca Slicer / Bambu Studio
+  else if ((match = /total estimated time:\s*([^;]+)/i.exec(comment))) {
+    header.printTime = parseDuration(match[1]);
+  } else if ((match = /^total filament length \[mm\]\s*:\s*([\d.]+)/i.exec(comment))) {
+    header.filamentLength = parseFloat(match[1]);
+  } else if ((match = /^total filament weight \[g\]\s*:\s*([\d.]+)/i.exec(comment))) {
+    header.filamentWeight = parseFloat(match[1]);
+  } else if ((match = /^total layer number:\s*(\d+)/i.exec(comment))) {
+    header.layers = parseInt(match[1], 10);
+  }
+}
+
+// "1d 2h 3m 4s" style durations
+function parseDuration(value: string): number | undefined {
+  let seconds = 0;
+  let matched = false;
+  const unitSeconds: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 };
+  const pattern = /(\d+)\s*([dhms])/gi;
+  let part: RegExpExecArray | null;
+  while ((part = pattern.exec(value)) !== null) {
+    seconds += parseInt(part[1], 10) * unitSeconds[part[2].toLowerCase()];
+    matched = true;
+  }
+  return matched ? seconds : undefined;
+}
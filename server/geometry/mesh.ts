@@ -0,0 +1,209 @@
+/**
+ * Indexed triangle mesh shared by every model parser and analysis step.
+ * Coordinates are in millimetres, as exported by slicers and CAD tools.
+ */
+export interface Mesh {
+  /** Vertex coordinates packed as x, y, z. */
+  vertices: Float64Array;
+  /** Triangle vertex indices packed as three per face. */
+  faces: Uint32Array;
+}
+
+export interface BoundingBox {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+export type Vec3 = [number, number, number];
+
+export function vertexCount(mesh: Mesh): number {
+  return mesh.vertices.length / 3;
+}
+
+export function faceCount(mesh: Mesh): number {
+  return mesh.faces.length / 3;
+}
+
+// Build an indexed mesh from a flat list of triangle corners (9 numbers per
+// triangle), sharing vertices whose coordinates are bit-for-bit identical.
+export function meshFromTriangles(corners: ArrayLike<number>): Mesh {
+  const triangleCount = Math.floor(corners.length / 9);
+  const lookup = new Map<string, number>();
+  const vertices: number[] = [];
+  const faces = new Uint32Array(triangleCount * 3);
+
+  for (let i = 0; i < triangleCount * 3; i++) {
+    const x = corners[i * 3];
+    const y = corners[i * 3 + 1];
+    const z = corners[i * 3 + 2];
+    const key = `${x},${y},${z}`;
+    let index = lookup.get(key);
+    if (index === undefined) {
+      index = vertices.length / 3;
+      vertices.push(x, y, z);
+      lookup.set(key, index);
+    }
+    faces[i] = index;
+  }
+
+  return { vertices: Float64Array.from(vertices), faces };
+}
+
+export function getVertex(mesh: Mesh, index: number): Vec3 {
+  const v = mesh.vertices;
+  return [v[index * 3], v[index * 3 + 1], v[index * 3 + 2]];
+}
+
+export function getTriangle(mesh: Mesh, face: number): [Vec3, Vec3, Vec3] {
+  const f = mesh.faces;
+  return [getVertex(mesh, f[face * 3]), getVertex(mesh, f[face * 3 + 1]), getVertex(mesh, f[face * 3 + 2])];
+}
+
+export function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+export function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+export function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+export function length(a: Vec3): number {
+  return Math.sqrt(dot(a, a));
+}
+
+// Unnormalised face normal; its length is twice the triangle area
+export function faceNormal(mesh: Mesh, face: number): Vec3 {
+  const [a, b, c] = getTriangle(mesh, face);
+  return cross(sub(b, a), sub(c, a));
+}
+
+export function faceArea(mesh: Mesh, face: number): number {
+  return length(faceNormal(mesh, face)) / 2;
+}
+
+// Enclosed volume in mm³ using the divergence theorem (sum of signed
+// tetrahedra against the origin). Only meaningful for closed meshes; the
+// absolute value is returned so inverted exports still price correctly.
+export function meshVolume(mesh: Mesh): number {
+  return Math.abs(signedVolume(mesh));
+}
+
+export function signedVolume(mesh: Mesh): number {
+  const v = mesh.vertices;
+  const f = mesh.faces;
+  let total = 0;
+  for (let i = 0; i < f.length; i += 3) {
+    const a = f[i] * 3;
+    const b = f[i + 1] * 3;
+    const c = f[i + 2] * 3;
+    total +=
+      v[a] * (v[b + 1] * v[c + 2] - v[b + 2] * v[c + 1]) -
+      v[a + 1] * (v[b] * v[c + 2] - v[b + 2] * v[c]) +
+      v[a + 2] * (v[b] * v[c + 1] - v[b + 1] * v[c]);
+  }
+  return total / 6;
+}
+
+// Total surface area in mm²
+export function surfaceArea(mesh: Mesh): number {
+  let total = 0;
+  for (let face = 0; face < faceCount(mesh); face++) {
+    total += faceArea(mesh, face);
+  }
+  return total;
+}
+
+export function boundingBox(mesh: Mesh): BoundingBox {
+  const v = mesh.vertices;
+  if (v.length === 0) {
+    return { min: [0, 0, 0], max: [0, 0, 0] };
+  }
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < v.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      const value = v[i + axis];
+      if (value < min[axis]) min[axis] = value;
+      if (value > max[axis]) max[axis] = value;
+    }
+  }
+  return { min, max };
+}
+
+export function boxSize(box: BoundingBox): Vec3 {
+  return [box.max[0] - box.min[0], box.max[1] - box.min[1], box.max[2] - box.min[2]];
+}
+
+// Affine transform as three rows of four: x' = m[0]x + m[1]y + m[2]z + m[3]
+export type Matrix3x4 = number[];
+
+export const IDENTITY: Matrix3x4 = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0];
+
+// Returns the transform that applies `b` first and then `a`
+export function multiplyMatrices(a: Matrix3x4, b: Matrix3x4): Matrix3x4 {
+  const result: Matrix3x4 = new Array(12).fill(0);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 4; col++) {
+      let value = col === 3 ? a[row * 4 + 3] : 0;
+      for (let k = 0; k < 3; k++) {
+        value += a[row * 4 + k] * b[k * 4 + col];
+      }
+      result[row * 4 + col] = value;
+    }
+  }
+  return result;
+}
+
+export function determinant(m: Matrix3x4): number {
+  return (
+    m[0] * (m[5] * m[10] - m[6] * m[9]) -
+    m[1] * (m[4] * m[10] - m[6] * m[8]) +
+    m[2] * (m[4] * m[9] - m[5] * m[8])
+  );
+}
+
+export function transformMesh(mesh: Mesh, m: Matrix3x4): Mesh {
+  const source = mesh.vertices;
+  const vertices = new Float64Array(source.length);
+  for (let i = 0; i < source.length; i += 3) {
+    const x = source[i];
+    const y = source[i + 1];
+    const z = source[i + 2];
+    vertices[i] = m[0] * x + m[1] * y + m[2] * z + m[3];
+    vertices[i + 1] = m[4] * x + m[5] * y + m[6] * z + m[7];
+    vertices[i + 2] = m[8] * x + m[9] * y + m[10] * z + m[11];
+  }
+
+  // Mirroring turns the mesh inside out, so restore outward-facing winding
+  let faces = mesh.faces;
+  if (determinant(m) < 0) {
+    faces = new Uint32Array(mesh.faces.length);
+    for (let i = 0; i < faces.length; i += 3) {
+      faces[i] = mesh.faces[i];
+      faces[i + 1] = mesh.faces[i + 2];
+      faces[i + 2] = mesh.faces[i + 1];
+    }
+  }
+
+  return { vertices, faces };
+}
+
+export function mergeMeshes(meshes: Mesh[]): Mesh {
+  const vertices = new Float64Array(meshes.reduce((sum, mesh) => sum + mesh.vertices.length, 0));
+  const faces = new Uint32Array(meshes.reduce((sum, mesh) => sum + mesh.faces.length, 0));
+  let vertexOffset = 0;
+  let faceOffset = 0;
+  for (const mesh of meshes) {
+    vertices.set(mesh.vertices, vertexOffset * 3);
+    for (let i = 0; i < mesh.faces.length; i++) {
+      faces[faceOffset + i] = mesh.faces[i] + vertexOffset;
+    }
+    vertexOffset += mesh.vertices.length / 3;
+    faceOffset += mesh.faces.length;
+  }
+  return { vertices, faces };
+}
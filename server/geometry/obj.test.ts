@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { faceCount, meshVolume } from "./mesh";
+import { parseObj } from "./obj";
+
+// A 20 mm cube as six quads, with normals and texture coordinates to skip
+const CUBE = `# cube
+o part
+v 0 0 0
+v 20 0 0
+v 20 20 0
+v 0 20 0
+v 0 0 20
+v 20 0 20
+v 20 20 20
+v 0 20 20
+vn 0 0 1
+vt 0 0
+f 1/1/1 4/1/1 3/1/1 2/1/1
+f 5 6 7 8
+g sides
+f 1 2 6 5
+f 2 3 7 6
+f -5 -1 -2 -6
+f 4 1 \\
+  5 8
+`;
+
+test("quads, groups, negative indices and continued lines make one closed part", () => {
+  const mesh = parseObj(Buffer.from(CUBE));
+  assert.equal(faceCount(mesh), 12);
+  assert.equal(meshVolume(mesh), 8000);
+});
+
+test("malformed files are rejected with the offending line", () => {
+  assert.throws(() => parseObj(Buffer.from("v 0 0 0\nv 1 nan 0\n")), /malformed vertex on line 2/);
+  assert.throws(() => parseObj(Buffer.from("v 0 0 0\nv 1 0 0\nf 1 2\n")), /fewer than three vertices on line 3/);
+  // Indices are 1-based, and may not point past the vertices read so far
+  assert.throws(() => parseObj(Buffer.from("v 0 0 0\nv 1 0 0\nv 0 1 0\nf 0 1 2\n")), /missing vertex on line 4/);
+  assert.throws(() => parseObj(Buffer.from("v 0 0 0\nv 1 0 0\nf 1 2 3\nv 0 1 0\n")), /missing vertex on line 3/);
+  assert.throws(() => parseObj(Buffer.from("v 0 0 0\nv 1 0 0\nv 0 1 0\nf -4 1 2\n")), /missing vertex on line 4/);
+});
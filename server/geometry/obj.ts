@@ -0,0 +1,66 @@
+import type { Mesh } from "./mesh";
+
+// Wavefront OBJ reader. Only geometry matters for quoting, so texture
+// coordinates, normals and materials are skipped. Vertex indices are global
+// to the file, which means `o`/`g` groups simply contribute their faces to
+// one combined mesh.
+export function parseObj(buffer: Buffer): Mesh {
+  const text = buffer.toString("utf8");
+  const vertices: number[] = [];
+  const faces: number[] = [];
+
+  let lineStart = 0;
+  let lineNumber = 0;
+  while (lineStart < text.length) {
+    let lineEnd = text.indexOf("\n", lineStart);
+    if (lineEnd === -1) lineEnd = text.length;
+    let line = text.slice(lineStart, lineEnd);
+    lineStart = lineEnd + 1;
+    lineNumber++;
+
+    // Backslash at the end of a line continues the record on the next one
+    while (line.endsWith("\\") && lineStart < text.length) {
+      let nextEnd = text.indexOf("\n", lineStart);
+      if (nextEnd === -1) nextEnd = text.length;
+      line = line.slice(0, -1) + " " + text.slice(lineStart, nextEnd);
+      lineStart = nextEnd + 1;
+      lineNumber++;
+    }
+
+    const tokens = line.trim().split(/\s+/);
+    switch (tokens[0]) {
+      case "v": {
+        const x = parseFloat(tokens[1]);
+        const y = parseFloat(tokens[2]);
+        const z = parseFloat(tokens[3]);
+        if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) {
+          throw new Error(`Invalid OBJ file: malformed vertex on line ${lineNumber}`);
+        }
+        vertices.push(x, y, z);
+        break;
+      }
+      case "f": {
+        const vertexCount = vertices.length / 3;
+        const polygon = tokens.slice(1).map((token) => {
+          const index = parseInt(token.split("/")[0], 10);
+          // Negative indices count back from the most recent vertex
+          const resolved = index < 0 ? vertexCount + index : index - 1;
+          if (!Number.isInteger(index) || index === 0 || resolved < 0 || resolved >= vertexCount) {
+            throw new Error(`Invalid OBJ file: face references a missing vertex on line ${lineNumber}`);
+          }
+          return resolved;
+        });
+        if (polygon.length < 3) {
+          throw new Error(`Invalid OBJ file: face with fewer than three vertices on line ${lineNumber}`);
+        }
+        // Fan triangulation; exporters only write planar, convex polygons
+        for (let i = 1; i < polygon.length - 1; i++) {
+          faces.push(polygon[0], polygon[i], polygon[i + 1]);
+        }
+        break;
+      }
+    }
+  }
+
+  return { vertices: Float64Array.from(vertices), faces: Uint32Array.from(faces) };
+}
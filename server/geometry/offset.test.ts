@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { offsetRegion, polygonArea } from "./offset";
+import type { Polygon } from "./slicer";
+
+// An L whose arms are 5 mm wide, with a concave corner at (5, 5)
+const L: Polygon = [[0, 0], [20, 0], [20, 5], [5, 5], [5, 20], [0, 20]];
+
+test("a concave outline is inset without folding over itself", () => {
+  // The arms are 1 mm wide after a 2 mm inset: 16 mm + 15 mm long
+  const [inset, ...rest] = offsetRegion([L], 2);
+  assert.equal(rest.length, 0);
+  assert.deepEqual(inset.map(([x, y]) => [+x.toFixed(6), +y.toFixed(6)]), [[2, 2], [18, 2], [18, 3], [3, 3], [3, 18], [2, 18]]);
+
+  // Past half the arm width nothing is left
+  assert.deepEqual(offsetRegion([L], 2.6), []);
+});
+
+test("a narrow neck splits the inset and touching offsets merge", () => {
+  // Two 10 mm squares joined by a 1 mm wide neck
+  const dumbbell: Polygon = [[0, 0], [10, 0], [10, 4.5], [20, 4.5], [20, 0], [30, 0], [30, 10], [20, 10], [20, 5.5], [10, 5.5], [10, 10], [0, 10]];
+  assert.deepEqual(offsetRegion([dumbbell], 0.6).map((loop) => polygonArea(loop).toFixed(2)), ["77.44", "77.44"]);
+
+  // Squares 1 mm apart grow into one outline when offset outwards by 1 mm
+  const left: Polygon = [[0, 0], [10, 0], [10, 10], [0, 10]];
+  const right: Polygon = [[11, 0], [21, 0], [21, 10], [11, 10]];
+  assert.deepEqual(offsetRegion([left, right], -1).map(polygonArea), [23 * 12]);
+
+  // A hole grows as the outline around it shrinks, until the wall is gone
+  const hole: Polygon = [[3, 3], [3, 7], [7, 7], [7, 3]];
+  assert.deepEqual(offsetRegion([left, hole], 1).map(polygonArea), [64, -36]);
+  assert.deepEqual(offsetRegion([left, hole], 1.6), []);
+});
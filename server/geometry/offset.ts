@@ -0,0 +1,378 @@
+import type { Polygon } from "./slicer";
+
+type Point = [number, number];
+
+// Corners whose miter would reach further than this many times the distance
+// are rounded instead
+const MITER_LIMIT = 2;
+const ARC_STEP = Math.PI / 12; // radians between points of a round corner
+const MIN_LOOP_AREA = 1e-6; // mm²
+// Crossings and corners closer than this are the same node
+const NODE_TOLERANCE = 1e-7; // mm
+
+interface Crossing {
+  t: number; // position along the segment, 0-1
+  node: number;
+}
+
+// The nodes on each loop: at its corners (-1 for none) and part-way along
+// each segment
+interface Crossings {
+  corners: number[][];
+  along: Map<number, Crossing[]>[];
+  nodeCount: number;
+}
+
+// A piece of a raw offset loop between two nodes, or a whole loop that
+// meets nothing (start and end -1)
+interface Chain {
+  start: number;
+  end: number;
+  points: Point[];
+}
+
+// Offsets a region's outlines (outer outlines counter-clockwise, holes
+// clockwise) by `distance` to the left of travel: into the material when
+// positive, away from it when negative. Corners and narrow necks make the
+// raw offset fold over itself, so, as Clipper does, the raw loops are split
+// where they cross and only the pieces bounding the area they wind around
+// once are kept. Overlapping parts merge, and parts thinner than the offset
+// disappear.
+export function offsetRegion(outlines: Polygon[], distance: number): Polygon[] {
+  const raw = outlines.map((outline) => rawOffset(outline, distance)).filter((loop) => loop.length >= 3);
+  return cleanLoops(raw).filter((loop) => Math.abs(polygonArea(loop)) > MIN_LOOP_AREA);
+}
+
+export function polygonArea(polygon: Polygon): number {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const [x1, y1] = polygon[i];
+    const [x2, y2] = polygon[(i + 1) % polygon.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+}
+
+// Moves every edge sideways and joins them up again. Where neighbouring
+// edges overlap after the move, a corner point is only used if it stays on
+// both edges; otherwise both edge ends and the original vertex are kept and
+// the fold is removed by cleanLoops. Gaps are closed with a miter, or an arc
+// when the corner is sharp.
+function rawOffset(polygon: Polygon, distance: number): Polygon {
+  const count = polygon.length;
+  const result: Polygon = [];
+  for (let i = 0; i < count; i++) {
+    const prev = polygon[(i + count - 1) % count];
+    const point = polygon[i];
+    const next = polygon[(i + 1) % count];
+    const before = Math.hypot(point[0] - prev[0], point[1] - prev[1]);
+    const after = Math.hypot(next[0] - point[0], next[1] - point[1]);
+    if (before < 1e-12 || after < 1e-12) continue;
+    const n1 = leftNormal(prev, point);
+    const n2 = leftNormal(point, next);
+    const p1: Point = [point[0] + n1[0] * distance, point[1] + n1[1] * distance];
+    const p2: Point = [point[0] + n2[0] * distance, point[1] + n2[1] * distance];
+    const sin = n1[0] * n2[1] - n1[1] * n2[0]; // positive on a left turn
+    const cos = n1[0] * n2[0] + n1[1] * n2[1];
+
+    if (Math.abs(sin) < 1e-9 && cos > 0) {
+      result.push(p1);
+      continue;
+    }
+    // Half the corner's turn; the miter point sits distance / cos(half) out
+    const cosHalf = Math.sqrt(Math.max(0, (1 + cos) / 2));
+    const miter = (): Point => {
+      const mx = n1[0] + n2[0];
+      const my = n1[1] + n2[1];
+      const size = Math.hypot(mx, my);
+      return [point[0] + (mx / size) * (distance / cosHalf), point[1] + (my / size) * (distance / cosHalf)];
+    };
+
+    if (sin * distance > 0) {
+      // The moved edges overlap; each loses this much length to the corner
+      const consumed = Math.abs(distance) * Math.sqrt(Math.max(0, 1 - cosHalf * cosHalf)) / Math.max(cosHalf, 1e-9);
+      if (cosHalf > 1e-9 && consumed <= Math.min(before, after) / 2) {
+        result.push(miter());
+      } else {
+        result.push(p1, point, p2);
+      }
+    } else if (cosHalf > 1e-9 && 1 / cosHalf <= MITER_LIMIT) {
+      result.push(miter());
+    } else {
+      result.push(...arc(point, p1, p2, Math.abs(distance), Math.sign(distance)));
+    }
+  }
+  return result;
+}
+
+// Points from p1 to p2 around `centre`, turning clockwise for positive
+// offsets (the gap of a right turn) and counter-clockwise for negative ones
+function arc(centre: Point, p1: Point, p2: Point, radius: number, direction: number): Point[] {
+  const a = Math.atan2(p1[1] - centre[1], p1[0] - centre[0]);
+  let sweep = Math.atan2(p2[1] - centre[1], p2[0] - centre[0]) - a;
+  if (direction > 0) {
+    while (sweep > 0) sweep -= 2 * Math.PI;
+  } else {
+    while (sweep < 0) sweep += 2 * Math.PI;
+  }
+  const steps = Math.max(1, Math.ceil(Math.abs(sweep) / ARC_STEP));
+  const points: Point[] = [];
+  for (let k = 0; k <= steps; k++) {
+    const angle = a + (sweep * k) / steps;
+    points.push([centre[0] + radius * Math.cos(angle), centre[1] + radius * Math.sin(angle)]);
+  }
+  return points;
+}
+
+function leftNormal(a: Point, b: Point): Point {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const size = Math.hypot(dx, dy) || 1;
+  return [-dy / size, dx / size];
+}
+
+// Keeps the outline of the area the loops wind around at least once
+// (positive fill): the pieces with winding 1 or more on their left and 0 or
+// less on their right, linked back into loops at the nodes where they meet.
+// Pieces that lie on top of each other are kept once.
+function cleanLoops(loops: Polygon[]): Polygon[] {
+  const { corners, along, nodeCount } = findCrossings(loops);
+  const isBoundary = (points: Point[]) => {
+    // Probe beside the longest segment, where the sides are easiest to tell
+    let best = 0;
+    for (let k = 1; k + 1 < points.length; k++) {
+      if (distance(points[k], points[k + 1]) > distance(points[best], points[best + 1])) best = k;
+    }
+    const [left, right] = probePoints(points[best], points[best + 1]);
+    return windingNumber(loops, left) >= 1 && windingNumber(loops, right) <= 0;
+  };
+  if (nodeCount === 0) {
+    return loops.filter((loop) => isBoundary([...loop, loop[0]]));
+  }
+
+  const chains: Chain[] = [];
+  loops.forEach((loop, l) => {
+    // The loop's points with the nodes along its segments spliced in
+    const walk: [Point, number][] = [];
+    loop.forEach((point, i) => {
+      walk.push([point, corners[l][i]]);
+      const next = loop[(i + 1) % loop.length];
+      for (const { t, node } of (along[l].get(i) ?? []).sort((a, b) => a.t - b.t)) {
+        if (node === walk[walk.length - 1][1]) continue;
+        walk.push([[point[0] + (next[0] - point[0]) * t, point[1] + (next[1] - point[1]) * t], node]);
+      }
+    });
+    const first = walk.findIndex(([, node]) => node >= 0);
+    if (first < 0) {
+      chains.push({ start: -1, end: -1, points: [...loop, loop[0]] });
+      return;
+    }
+    let current: Chain = { start: walk[first][1], end: -1, points: [walk[first][0]] };
+    for (let k = 1; k <= walk.length; k++) {
+      const [point, node] = walk[(first + k) % walk.length];
+      current.points.push(point);
+      if (node >= 0) {
+        current.end = node;
+        if (node !== current.start || current.points.length > 2) chains.push(current);
+        current = { start: node, end: -1, points: [point] };
+      }
+    }
+  });
+
+  const seen = new Set<string>();
+  const kept = chains.filter((chain) => {
+    if (!isBoundary(chain.points)) return false;
+    if (chain.start < 0) return true;
+    const [x, y] = chain.points[1];
+    const key = `${chain.start},${chain.end},${Math.round(x * 1e4)},${Math.round(y * 1e4)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  const result: Polygon[] = kept.filter((chain) => chain.start < 0).map((chain) => chain.points.slice(0, -1));
+
+  // Follow kept pieces from node to node until the loop closes
+  const leaving = new Map<number, Chain[]>();
+  for (const chain of kept) {
+    if (chain.start < 0) continue;
+    const list = leaving.get(chain.start);
+    if (list) list.push(chain);
+    else leaving.set(chain.start, [chain]);
+  }
+  const used = new Set<Chain>();
+  for (const chain of kept) {
+    if (chain.start < 0 || used.has(chain)) continue;
+    const loop: Polygon = [];
+    let piece: Chain | undefined = chain;
+    while (piece && !used.has(piece)) {
+      used.add(piece);
+      loop.push(...piece.points.slice(0, -1));
+      if (piece.end === chain.start) break;
+      piece = leaving.get(piece.end)?.find((candidate) => !used.has(candidate));
+    }
+    if (piece && piece.end === chain.start && loop.length >= 3) result.push(loop);
+  }
+  return result;
+}
+
+// Just left and just right of the middle of segment a→b
+function probePoints(a: Point, b: Point): [Point, Point] {
+  const [nx, ny] = leftNormal(a, b);
+  const offset = Math.min(distance(a, b) * 1e-3, 1e-5);
+  const mx = (a[0] + b[0]) / 2;
+  const my = (a[1] + b[1]) / 2;
+  return [[mx + nx * offset, my + ny * offset], [mx - nx * offset, my - ny * offset]];
+}
+
+function windingNumber(loops: Polygon[], [x, y]: Point): number {
+  let winding = 0;
+  for (const loop of loops) {
+    for (let i = 0; i < loop.length; i++) {
+      const [x1, y1] = loop[i];
+      const [x2, y2] = loop[(i + 1) % loop.length];
+      const side = (x2 - x1) * (y - y1) - (x - x1) * (y2 - y1);
+      if (y1 <= y && y2 > y && side > 0) winding++;
+      else if (y1 > y && y2 <= y && side < 0) winding--;
+    }
+  }
+  return winding;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b[0] - a[0], b[1] - a[1]);
+}
+
+// Every place two segments of the loops meet: where they cross, where one
+// ends on the other, and the ends of stretches where they overlap. Segments
+// are compared through a uniform grid so long outlines don't test every pair.
+function findCrossings(loops: Polygon[]): Crossings {
+  const corners = loops.map((loop) => loop.map(() => -1));
+  const along = loops.map(() => new Map<number, Crossing[]>());
+  const nodes = new Map<string, number>();
+  let nodeCount = 0;
+  const nodeAt = ([x, y]: Point) => {
+    const gx = Math.round(x / NODE_TOLERANCE);
+    const gy = Math.round(y / NODE_TOLERANCE);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const found = nodes.get(`${gx + dx},${gy + dy}`);
+        if (found !== undefined) return found;
+      }
+    }
+    nodes.set(`${gx},${gy}`, nodeCount);
+    return nodeCount++;
+  };
+
+  interface Segment { loop: number; index: number; a: Point; b: Point; length: number }
+  const segments: Segment[] = [];
+  let totalLength = 0;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  loops.forEach((loop, l) => loop.forEach((a, i) => {
+    const b = loop[(i + 1) % loop.length];
+    const length = distance(a, b);
+    segments.push({ loop: l, index: i, a, b, length });
+    totalLength += length;
+    minX = Math.min(minX, a[0]);
+    minY = Math.min(minY, a[1]);
+    maxX = Math.max(maxX, a[0]);
+    maxY = Math.max(maxY, a[1]);
+  }));
+
+  // Puts a node at `point`, `t` of the way along the segment
+  const mark = (segment: Segment, t: number, point: Point) => {
+    const node = nodeAt(point);
+    const tolerance = NODE_TOLERANCE / Math.max(segment.length, NODE_TOLERANCE);
+    if (t <= tolerance) {
+      corners[segment.loop][segment.index] = node;
+    } else if (t >= 1 - tolerance) {
+      corners[segment.loop][(segment.index + 1) % loops[segment.loop].length] = node;
+    } else {
+      const list = along[segment.loop].get(segment.index);
+      if (list) list.push({ t, node });
+      else along[segment.loop].set(segment.index, [{ t, node }]);
+    }
+  };
+  // Where `point` falls along the segment, if it lies on it
+  const locate = (segment: Segment, point: Point): number | null => {
+    const rx = segment.b[0] - segment.a[0];
+    const ry = segment.b[1] - segment.a[1];
+    const t = ((point[0] - segment.a[0]) * rx + (point[1] - segment.a[1]) * ry) / (segment.length * segment.length);
+    const tolerance = NODE_TOLERANCE / segment.length;
+    return t >= -tolerance && t <= 1 + tolerance ? Math.min(1, Math.max(0, t)) : null;
+  };
+
+  const meet = (first: Segment, second: Segment) => {
+    if (first.length < NODE_TOLERANCE || second.length < NODE_TOLERANCE) return;
+    const { a, b } = first;
+    const { a: c, b: d } = second;
+    const rx = b[0] - a[0];
+    const ry = b[1] - a[1];
+    const sx = d[0] - c[0];
+    const sy = d[1] - c[1];
+    const denominator = rx * sy - ry * sx;
+    if (Math.abs(denominator) > 1e-12 * first.length * second.length) {
+      const t = ((c[0] - a[0]) * sy - (c[1] - a[1]) * sx) / denominator;
+      const u = ((c[0] - a[0]) * ry - (c[1] - a[1]) * rx) / denominator;
+      const tTolerance = NODE_TOLERANCE / first.length;
+      const uTolerance = NODE_TOLERANCE / second.length;
+      if (t < -tTolerance || t > 1 + tTolerance || u < -uTolerance || u > 1 + uTolerance) return;
+      // Prefer an existing corner over a computed point
+      const point: Point = u <= uTolerance ? c : u >= 1 - uTolerance ? d
+        : t <= tTolerance ? a : t >= 1 - tTolerance ? b
+        : [a[0] + rx * t, a[1] + ry * t];
+      mark(first, Math.min(1, Math.max(0, t)), point);
+      mark(second, Math.min(1, Math.max(0, u)), point);
+      return;
+    }
+    // Parallel: they only meet if they lie on the same line
+    if (Math.abs(rx * (c[1] - a[1]) - ry * (c[0] - a[0])) / first.length > NODE_TOLERANCE) return;
+    for (const [point, end] of [[c, 0], [d, 1]] as [Point, number][]) {
+      const t = locate(first, point);
+      if (t === null) continue;
+      mark(first, t, point);
+      mark(second, end, point);
+    }
+    for (const [point, end] of [[a, 0], [b, 1]] as [Point, number][]) {
+      const u = locate(second, point);
+      if (u === null) continue;
+      mark(second, u, point);
+      mark(first, end, point);
+    }
+  };
+
+  const cellSize = Math.max(totalLength / Math.max(1, segments.length), (maxX - minX + maxY - minY) / 1000, 1e-6);
+  const cells = new Map<string, number[]>();
+  segments.forEach(({ a, b }, s) => {
+    for (let cx = Math.floor(Math.min(a[0], b[0]) / cellSize); cx <= Math.floor(Math.max(a[0], b[0]) / cellSize); cx++) {
+      for (let cy = Math.floor(Math.min(a[1], b[1]) / cellSize); cy <= Math.floor(Math.max(a[1], b[1]) / cellSize); cy++) {
+        const key = `${cx},${cy}`;
+        const cell = cells.get(key);
+        if (cell) cell.push(s);
+        else cells.set(key, [s]);
+      }
+    }
+  });
+  const tested = new Set<number>();
+  cells.forEach((cell) => {
+    for (let i = 0; i < cell.length; i++) {
+      for (let j = i + 1; j < cell.length; j++) {
+        const [s, r] = cell[i] < cell[j] ? [cell[i], cell[j]] : [cell[j], cell[i]];
+        const pair = s * segments.length + r;
+        if (tested.has(pair)) continue;
+        tested.add(pair);
+        const first = segments[s];
+        const second = segments[r];
+        // Neighbouring segments of a loop only share their corner
+        if (first.loop === second.loop) {
+          const gap = Math.abs(first.index - second.index);
+          if (gap === 1 || gap === loops[first.loop].length - 1) continue;
+        }
+        meet(first, second);
+      }
+    }
+  });
+  return { corners, along, nodeCount };
+}
@@ -0,0 +1,205 @@
+import type { ModelDimensions } from "@shared/analysis";
+import { fitRotation } from "./fit";
+import {
+  boundingBox,
+  boxSize,
+  faceCount,
+  faceNormal,
+  getTriangle,
+  length,
+  meshVolume,
+  multiplyMatrices,
+  transformMesh,
+  type Matrix3x4,
+  type Mesh,
+  type Vec3,
+} from "./mesh";
+import { estimateSupports } from "./supports";
+
+const SPHERE_SAMPLES = 26;
+// Dense meshes are scored on an evenly strided subset of their faces
+const MAX_SCORED_FACES = 60_000;
+const FLAT_FACE_CANDIDATES = 8;
+const REPORTED_CANDIDATES = 3;
+const BED_CONTACT_TOLERANCE = 0.1; // mm
+// Normals within this angle are treated as one flat face
+const FLAT_FACE_ANGLE = 2; // degrees
+
+// Relative weight of each criterion in the orientation score, applied to
+// support volume relative to the part volume, height relative to the part's
+// longest extent and bed contact relative to the part's largest flat face
+const SUPPORT_WEIGHT = 1;
+const HEIGHT_WEIGHT = 0.3;
+const CONTACT_WEIGHT = 0.2;
+
+export interface OrientationCandidate {
+  rotation: Matrix3x4; // includes any turn about Z needed to fit the bed
+  down: Vec3; // model-space direction that faces the bed
+  fits: boolean; // within the build volume
+  supportVolume: number; // mm³
+  contactArea: number; // mm²
+  height: number; // mm
+  score: number; // lower is better
+}
+
+export interface OrientationResult {
+  best: OrientationCandidate;
+  ranked: OrientationCandidate[];
+}
+
+// Searches for the print orientation that needs the least support while
+// keeping the part low and well seated on the bed. Candidates are the large
+// flat faces of the part laid face down, the six axis directions and an even
+// sampling of the sphere. Each is turned about Z as the build volume needs;
+// those that don't fit at any turn are only considered when none fits.
+export function optimizeOrientation(
+  mesh: Mesh,
+  overhangAngle: number,
+  envelope?: ModelDimensions,
+): OrientationResult {
+  const volume = Math.max(meshVolume(mesh), 1e-9);
+  const extent = Math.max(...boxSize(boundingBox(mesh)), 1e-9);
+  const flats = flatFaceDirections(mesh);
+  const stride = Math.ceil(faceCount(mesh) / MAX_SCORED_FACES);
+  const sample = stride > 1 ? strideFaces(mesh, stride) : mesh;
+  const largestFlat = Math.max(flats[0]?.area ?? 0, 1e-9);
+
+  const directions: Vec3[] = [[0, 0, -1], ...flats.map((flat) => flat.normal), ...axisDirections(), ...sphereDirections(SPHERE_SAMPLES)];
+  const candidates: OrientationCandidate[] = [];
+  for (const down of uniqueDirections(directions)) {
+    let rotation = rotationToDown(down);
+    let rotated = transformMesh(sample, rotation);
+    // The sample keeps every vertex, so its footprint is the part's
+    const turn = envelope ? fitRotation(rotated, envelope) : 0;
+    if (turn) {
+      rotation = multiplyMatrices(rotationAboutZ(turn), rotation);
+      rotated = transformMesh(sample, rotation);
+    }
+    const height = boxSize(boundingBox(rotated))[2];
+    const supportVolume = estimateSupports(rotated, overhangAngle).supportVolume * stride;
+    const contactArea = bedContactArea(rotated) * stride;
+    const score =
+      SUPPORT_WEIGHT * (supportVolume / volume) +
+      HEIGHT_WEIGHT * (height / extent) -
+      CONTACT_WEIGHT * Math.min(1, contactArea / largestFlat);
+    candidates.push({ rotation, down, fits: turn !== null, supportVolume, contactArea, height, score });
+  }
+
+  // Ties go to the earlier candidate, which keeps the part as exported
+  const printable = candidates.filter((candidate) => candidate.fits);
+  const ranked = (printable.length > 0 ? printable : candidates)
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => a.candidate.score - b.candidate.score || a.index - b.index)
+    .map(({ candidate }) => candidate);
+  return { best: ranked[0], ranked: ranked.slice(0, REPORTED_CANDIDATES) };
+}
+
+// Rotation that turns `down` to point at -Z (Rodrigues' formula)
+export function rotationToDown(down: Vec3): Matrix3x4 {
+  const size = length(down);
+  const d: Vec3 = [down[0] / size, down[1] / size, down[2] / size];
+  const target: Vec3 = [0, 0, -1];
+  const cos = d[0] * target[0] + d[1] * target[1] + d[2] * target[2];
+
+  if (cos > 1 - 1e-9) {
+    return [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0];
+  }
+  if (cos < -1 + 1e-9) {
+    // Upside down: half turn about X
+    return [1, 0, 0, 0, 0, -1, 0, 0, 0, 0, -1, 0];
+  }
+
+  // Axis k = d × target, normalised; sin is its original length
+  const axis: Vec3 = [d[1] * target[2] - d[2] * target[1], d[2] * target[0] - d[0] * target[2], d[0] * target[1] - d[1] * target[0]];
+  const sin = length(axis);
+  const [x, y, z] = [axis[0] / sin, axis[1] / sin, axis[2] / sin];
+  const t = 1 - cos;
+  return [
+    t * x * x + cos, t * x * y - sin * z, t * x * z + sin * y, 0,
+    t * x * y + sin * z, t * y * y + cos, t * y * z - sin * x, 0,
+    t * x * z - sin * y, t * y * z + sin * x, t * z * z + cos, 0,
+  ];
+}
+
+function rotationAboutZ(degrees: number): Matrix3x4 {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [cos, -sin, 0, 0, sin, cos, 0, 0, 0, 0, 1, 0];
+}
+
+// Area of downward-facing faces lying on the lowest plane of the part
+function bedContactArea(mesh: Mesh): number {
+  const bedZ = boundingBox(mesh).min[2];
+  let area = 0;
+  for (let face = 0; face < faceCount(mesh); face++) {
+    const [a, b, c] = getTriangle(mesh, face);
+    if (Math.max(a[2], b[2], c[2]) - bedZ > BED_CONTACT_TOLERANCE) continue;
+    const normal = faceNormal(mesh, face);
+    if (normal[2] < 0) {
+      area += length(normal) / 2;
+    }
+  }
+  return area;
+}
+
+// Outward normals of the largest planar regions, found by grouping faces
+// with nearly identical normals and summing their areas
+function flatFaceDirections(mesh: Mesh): { normal: Vec3; area: number }[] {
+  const buckets = new Map<string, { normal: Vec3; area: number }>();
+  const step = (FLAT_FACE_ANGLE * Math.PI) / 180;
+  for (let face = 0; face < faceCount(mesh); face++) {
+    const normal = faceNormal(mesh, face);
+    const doubleArea = length(normal);
+    if (doubleArea === 0) continue;
+    const unit: Vec3 = [normal[0] / doubleArea, normal[1] / doubleArea, normal[2] / doubleArea];
+    const key = `${Math.round(Math.acos(Math.max(-1, Math.min(1, unit[2]))) / step)},${Math.round(Math.atan2(unit[1], unit[0]) / step)}`;
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.area += doubleArea / 2;
+    } else {
+      buckets.set(key, { normal: unit, area: doubleArea / 2 });
+    }
+  }
+  return Array.from(buckets.values())
+    .sort((a, b) => b.area - a.area)
+    .slice(0, FLAT_FACE_CANDIDATES);
+}
+
+// Keeps every `stride`-th face but all vertices, so the bounding box and
+// therefore the bed plane are unchanged
+function strideFaces(mesh: Mesh, stride: number): Mesh {
+  const faces = new Uint32Array(Math.ceil(faceCount(mesh) / stride) * 3);
+  for (let face = 0, i = 0; face < faceCount(mesh); face += stride, i += 3) {
+    faces.set(mesh.faces.subarray(face * 3, face * 3 + 3), i);
+  }
+  return { vertices: mesh.vertices, faces };
+}
+
+function axisDirections(): Vec3[] {
+  return [[0, 0, 1], [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0]];
+}
+
+// Evenly spread directions on the unit sphere (Fibonacci lattice)
+function sphereDirections(count: number): Vec3[] {
+  const directions: Vec3[] = [];
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  for (let i = 0; i < count; i++) {
+    const z = 1 - (2 * (i + 0.5)) / count;
+    const radius = Math.sqrt(1 - z * z);
+    directions.push([Math.cos(golden * i) * radius, Math.sin(golden * i) * radius, z]);
+  }
+  return directions;
+}
+
+function uniqueDirections(directions: Vec3[]): Vec3[] {
+  const unique: Vec3[] = [];
+  for (const direction of directions) {
+    const size = length(direction);
+    const unit: Vec3 = [direction[0] / size, direction[1] / size, direction[2] / size];
+    if (!unique.some((other) => other[0] * unit[0] + other[1] * unit[1] + other[2] * unit[2] > 0.9999)) {
+      unique.push(unit);
+    }
+  }
+  return unique;
+}
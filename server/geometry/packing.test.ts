@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { PlateFootprint } from "@shared/analysis";
+import { copiesPerPlate, packPlates, PART_SPACING } from "./packing";
+
+const BED: PlateFootprint = { x: 220, y: 220 };
+
+test("copies fill the plate in rows with a gap between them", () => {
+  // 50 + 10 + 50 + 10 + 50 fits across; a fourth doesn't
+  assert.equal(copiesPerPlate({ x: 50, y: 50 }, BED), 9);
+  // Exactly two across, then one too many
+  assert.equal(copiesPerPlate({ x: 105, y: 105 }, BED), 4);
+  assert.equal(copiesPerPlate({ x: 106, y: 106 }, BED), 1);
+  // Tall parts are laid down to fit more rows
+  assert.equal(copiesPerPlate({ x: 30, y: 200 }, BED), 5);
+});
+
+test("a part that only fits the bed turned diagonally still gets a plate of its own", () => {
+  assert.equal(copiesPerPlate({ x: 220, y: 220 }, BED), 1);
+  assert.equal(copiesPerPlate({ x: 240, y: 20 }, BED), 1);
+  assert.deepEqual(packPlates([{ x: 240, y: 20 }, { x: 20, y: 20 }], BED), [
+    [{ part: 0, x: 0, y: 0, rotated: false }],
+    [{ part: 1, x: 0, y: 0, rotated: false }],
+  ]);
+});
+
+test("mixed parts are packed inside the bed without touching", () => {
+  const parts: PlateFootprint[] = [
+    { x: 100, y: 50 }, { x: 50, y: 100 }, { x: 200, y: 200 }, { x: 10, y: 210 }, { x: 60, y: 60 }, { x: 60, y: 60 },
+  ];
+  const plates = packPlates(parts, BED);
+  assert.deepEqual(plates.flat().map((placement) => placement.part).sort(), [0, 1, 2, 3, 4, 5]);
+
+  for (const plate of plates) {
+    const boxes = plate.map(({ part, x, y, rotated }) => {
+      const [w, h] = rotated ? [parts[part].y, parts[part].x] : [parts[part].x, parts[part].y];
+      assert.ok(x >= 0 && y >= 0 && x + w <= BED.x && y + h <= BED.y, `part ${part} leaves the bed`);
+      return { x, y, w, h };
+    });
+    for (let i = 0; i < boxes.length; i++) {
+      for (let j = i + 1; j < boxes.length; j++) {
+        const [a, b] = [boxes[i], boxes[j]];
+        const apart = a.x + a.w + PART_SPACING <= b.x || b.x + b.w + PART_SPACING <= a.x
+          || a.y + a.h + PART_SPACING <= b.y || b.y + b.h + PART_SPACING <= a.y;
+        assert.ok(apart, `parts ${plate[i].part} and ${plate[j].part} are closer than ${PART_SPACING} mm`);
+      }
+    }
+  }
+});
@@ -0,0 +1,88 @@
+import type { PlateFootprint } from "@shared/analysis";
+
+// Gap left between parts so skirts and nozzle travel don't touch neighbours
+export const PART_SPACING = 10; // mm
+// Upper bound on copies tried when filling a plate
+const MAX_COPIES = 500;
+
+export interface Placement {
+  part: number; // index into the packed footprints
+  x: number; // mm, corner nearest the bed origin
+  y: number;
+  rotated: boolean; // turned 90° about Z
+}
+
+interface Shelf {
+  plate: number;
+  y: number;
+  height: number;
+  width: number; // used so far, including gaps
+}
+
+// First-fit decreasing shelf packing: parts are sorted tallest first and laid
+// left to right in rows across the bed, each part landscape where possible
+// and turned upright when that is the only way it fits the row or the plate.
+// Parts too large for the bed in either direction get a plate of their own.
+export function packPlates(parts: PlateFootprint[], bed: PlateFootprint, spacing = PART_SPACING): Placement[][] {
+  const plates: Placement[][] = [];
+  const plateDepth: number[] = []; // used depth of each plate, including gaps
+  const shelves: Shelf[] = [];
+
+  const orientations = (part: PlateFootprint) => {
+    const landscape = { w: Math.max(part.x, part.y), h: Math.min(part.x, part.y), rotated: part.y > part.x };
+    const portrait = { w: landscape.h, h: landscape.w, rotated: !landscape.rotated };
+    return [landscape, portrait].filter((option) => option.w <= bed.x && option.h <= bed.y);
+  };
+
+  const order = parts.map((_, index) => index);
+  order.sort((a, b) => Math.min(parts[b].x, parts[b].y) - Math.min(parts[a].x, parts[a].y));
+
+  order.forEach((index) => {
+    const options = orientations(parts[index]);
+    if (options.length === 0) {
+      plates.push([{ part: index, x: 0, y: 0, rotated: false }]);
+      plateDepth.push(bed.y);
+      return;
+    }
+
+    // Into an existing row that is tall and has room enough
+    for (let s = 0; s < shelves.length; s++) {
+      const shelf = shelves[s];
+      const gap = shelf.width > 0 ? spacing : 0;
+      const option = options.find((o) => o.h <= shelf.height && shelf.width + gap + o.w <= bed.x);
+      if (option) {
+        plates[shelf.plate].push({ part: index, x: shelf.width + gap, y: shelf.y, rotated: option.rotated });
+        shelf.width += gap + option.w;
+        return;
+      }
+    }
+
+    // Otherwise a new row on the first plate with depth left, or a new plate
+    for (let plate = 0; plate <= plates.length; plate++) {
+      if (plate === plates.length) {
+        plates.push([]);
+        plateDepth.push(0);
+      }
+      const gap = plateDepth[plate] > 0 ? spacing : 0;
+      const option = options.find((o) => plateDepth[plate] + gap + o.h <= bed.y);
+      if (option) {
+        const y = plateDepth[plate] + gap;
+        shelves.push({ plate, y, height: option.h, width: option.w });
+        plates[plate].push({ part: index, x: 0, y, rotated: option.rotated });
+        plateDepth[plate] = y + option.h;
+        return;
+      }
+    }
+  });
+
+  return plates;
+}
+
+// How many copies of one part fit on a single plate; at least one, since a
+// part that only fits turned diagonally is still printed one per plate
+export function copiesPerPlate(part: PlateFootprint, bed: PlateFootprint, spacing = PART_SPACING): number {
+  const cell = (part.x + spacing) * (part.y + spacing);
+  const bound = Math.min(MAX_COPIES, Math.floor(((bed.x + spacing) * (bed.y + spacing)) / cell) + 1);
+  const plates = packPlates(Array(bound).fill(part), bed, spacing);
+  return Math.max(1, plates[0].length);
+}
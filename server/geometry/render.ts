@@ -0,0 +1,162 @@
+import { cross, dot, faceCount, getTriangle, length, sub, type Mesh, type Vec3 } from "./mesh";
+import type { RgbaImage } from "./png";
+
+export type ThumbnailView = "iso" | "front" | "right" | "top";
+
+// Direction from the model towards the camera for each canonical view
+const VIEW_DIRECTIONS: Record<ThumbnailView, Vec3> = {
+  iso: [1, -1, 0.8],
+  front: [0, -1, 0],
+  right: [1, 0, 0],
+  top: [0, 0, 1],
+};
+
+const THUMBNAIL_LAYOUT: ThumbnailView[] = ["iso", "front", "right", "top"];
+const BACKGROUND: Vec3 = [30, 35, 40];
+const MODEL_COLOR: Vec3 = [0, 184, 212];
+const AMBIENT = 0.25;
+// Rendered at this multiple of the output size and averaged down to smooth edges
+const SUPERSAMPLE = 2;
+
+// 2×2 contact sheet of the canonical views, each `tile` pixels square
+export function renderThumbnail(mesh: Mesh, tile = 200): RgbaImage {
+  const size = tile * 2;
+  const data = new Uint8Array(size * size * 4);
+  THUMBNAIL_LAYOUT.forEach((view, index) => {
+    const image = renderView(mesh, view, tile);
+    const left = (index % 2) * tile;
+    const top = Math.floor(index / 2) * tile;
+    for (let y = 0; y < tile; y++) {
+      data.set(image.data.subarray(y * tile * 4, (y + 1) * tile * 4), ((top + y) * size + left) * 4);
+    }
+  });
+  return { width: size, height: size, data };
+}
+
+// Flat-shaded orthographic view with a depth buffer, lit from over the
+// camera's shoulder. Faces seen from behind (holes, flipped normals) are
+// drawn darker rather than culled so broken meshes still look solid.
+export function renderView(mesh: Mesh, view: ThumbnailView, size: number): RgbaImage {
+  const scaled = size * SUPERSAMPLE;
+  const { right, up, toward } = cameraBasis(VIEW_DIRECTIONS[view]);
+  const count = faceCount(mesh);
+
+  // Project every vertex once: screen x/y and depth towards the camera
+  const v = mesh.vertices;
+  const projected = new Float64Array(v.length);
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < v.length; i += 3) {
+    const p: Vec3 = [v[i], v[i + 1], v[i + 2]];
+    projected[i] = dot(p, right);
+    projected[i + 1] = dot(p, up);
+    projected[i + 2] = dot(p, toward);
+    minX = Math.min(minX, projected[i]);
+    maxX = Math.max(maxX, projected[i]);
+    minY = Math.min(minY, projected[i + 1]);
+    maxY = Math.max(maxY, projected[i + 1]);
+  }
+  const fit = (scaled * 0.9) / Math.max(maxX - minX, maxY - minY, 1e-9);
+  const centreX = (minX + maxX) / 2;
+  const centreY = (minY + maxY) / 2;
+  for (let i = 0; i < projected.length; i += 3) {
+    projected[i] = scaled / 2 + (projected[i] - centreX) * fit;
+    projected[i + 1] = scaled / 2 - (projected[i + 1] - centreY) * fit;
+  }
+
+  const light = normalize([toward[0] + 0.4 * up[0] + 0.3 * right[0], toward[1] + 0.4 * up[1] + 0.3 * right[1], toward[2] + 0.4 * up[2] + 0.3 * right[2]]);
+  const depth = new Float64Array(scaled * scaled).fill(-Infinity);
+  const shade = new Float32Array(scaled * scaled).fill(-1);
+
+  const f = mesh.faces;
+  for (let face = 0; face < count; face++) {
+    const [a, b, c] = getTriangle(mesh, face);
+    const normal = cross(sub(b, a), sub(c, a));
+    const area = length(normal);
+    if (area === 0) continue;
+    const facing = dot(normal, toward) / area;
+    const lit = Math.abs(dot(normal, light)) / area;
+    const brightness = (AMBIENT + (1 - AMBIENT) * lit) * (facing < 0 ? 0.5 : 1);
+
+    const i0 = f[face * 3] * 3;
+    const i1 = f[face * 3 + 1] * 3;
+    const i2 = f[face * 3 + 2] * 3;
+    rasterizeTriangle(
+      projected[i0], projected[i0 + 1], projected[i0 + 2],
+      projected[i1], projected[i1 + 1], projected[i1 + 2],
+      projected[i2], projected[i2 + 1], projected[i2 + 2],
+      scaled, depth, shade, brightness,
+    );
+  }
+
+  return downsample(shade, scaled, size);
+}
+
+function rasterizeTriangle(
+  x0: number, y0: number, z0: number,
+  x1: number, y1: number, z1: number,
+  x2: number, y2: number, z2: number,
+  size: number, depth: Float64Array, shade: Float32Array, brightness: number,
+) {
+  const area = (x1 - x0) * (y2 - y0) - (x2 - x0) * (y1 - y0);
+  if (Math.abs(area) < 1e-12) return;
+  const left = Math.max(0, Math.floor(Math.min(x0, x1, x2)));
+  const right = Math.min(size - 1, Math.ceil(Math.max(x0, x1, x2)));
+  const top = Math.max(0, Math.floor(Math.min(y0, y1, y2)));
+  const bottom = Math.min(size - 1, Math.ceil(Math.max(y0, y1, y2)));
+
+  for (let y = top; y <= bottom; y++) {
+    const py = y + 0.5;
+    for (let x = left; x <= right; x++) {
+      const px = x + 0.5;
+      // Barycentric weights; all share the triangle's winding when inside
+      const w0 = ((x1 - px) * (y2 - py) - (x2 - px) * (y1 - py)) / area;
+      const w1 = ((x2 - px) * (y0 - py) - (x0 - px) * (y2 - py)) / area;
+      const w2 = 1 - w0 - w1;
+      if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+      const z = w0 * z0 + w1 * z1 + w2 * z2;
+      const pixel = y * size + x;
+      if (z > depth[pixel]) {
+        depth[pixel] = z;
+        shade[pixel] = brightness;
+      }
+    }
+  }
+}
+
+// Box-filters the supersampled shading into RGBA pixels
+function downsample(shade: Float32Array, scaled: number, size: number): RgbaImage {
+  const data = new Uint8Array(size * size * 4);
+  const samples = SUPERSAMPLE * SUPERSAMPLE;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const colour = [0, 0, 0];
+      for (let sy = 0; sy < SUPERSAMPLE; sy++) {
+        for (let sx = 0; sx < SUPERSAMPLE; sx++) {
+          const value = shade[(y * SUPERSAMPLE + sy) * scaled + x * SUPERSAMPLE + sx];
+          for (let k = 0; k < 3; k++) colour[k] += value < 0 ? BACKGROUND[k] : MODEL_COLOR[k] * value;
+        }
+      }
+      const out = (y * size + x) * 4;
+      for (let k = 0; k < 3; k++) data[out + k] = Math.round(colour[k] / samples);
+      data[out + 3] = 255;
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+// Screen axes for a camera looking back along `direction`, Z up on screen
+// except when looking straight down, where Y is up
+function cameraBasis(direction: Vec3): { right: Vec3; up: Vec3; toward: Vec3 } {
+  const toward = normalize(direction);
+  const worldUp: Vec3 = Math.abs(toward[2]) > 0.99 ? [0, 1, 0] : [0, 0, 1];
+  const right = normalize(cross(worldUp, toward));
+  return { right, up: cross(toward, right), toward };
+}
+
+function normalize(v: Vec3): Vec3 {
+  const size = length(v) || 1;
+  return [v[0] / size, v[1] / size, v[2] / size];
+}
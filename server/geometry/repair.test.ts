@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { meshFromTriangles, meshVolume, signedVolume } from "./mesh";
+import { hasRepairs, repairMesh } from "./repair";
+import { cube } from "./test-fixtures";
+
+test("a correctly wound hollow box is left alone", () => {
+  const mesh = meshFromTriangles([...cube(0, 20), ...cube(5, 10, true)]);
+  assert.equal(signedVolume(mesh), 7000);
+
+  const { mesh: repaired, report } = repairMesh(mesh);
+  assert.equal(hasRepairs(report), false);
+  assert.equal(meshVolume(repaired), 7000);
+});
+
+test("an inside-out cavity is turned around", () => {
+  const mesh = meshFromTriangles([...cube(0, 20), ...cube(5, 10)]);
+
+  const { mesh: repaired, report } = repairMesh(mesh);
+  assert.equal(report.flippedFaces, 12);
+  assert.equal(meshVolume(repaired), 7000);
+});
+
+test("an inside-out part is turned around", () => {
+  const mesh = meshFromTriangles(cube(0, 20, true));
+
+  const { mesh: repaired, report } = repairMesh(mesh);
+  assert.equal(report.flippedFaces, 12);
+  assert.equal(signedVolume(repaired), 8000);
+});
@@ -0,0 +1,334 @@
+import { buildEdgeMap, findShells, isDegenerateFace } from "./diagnostics";
+import { cross, dot, faceCount, getTriangle, signedVolume, sub, vertexCount, type BoundingBox, type Mesh, type Vec3 } from "./mesh";
+
+const WELD_TOLERANCE = 1e-3; // mm
+const MAX_HOLE_EDGES = 64;
+const MIN_SHELL_VOLUME = 0.5; // mm³
+const MIN_SHELL_FACES = 4;
+
+export interface RepairReport {
+  weldedVertices: number;
+  removedFaces: number;
+  removedShells: number;
+  flippedFaces: number;
+  filledHoles: number;
+}
+
+export function repairMesh(input: Mesh): { mesh: Mesh; report: RepairReport } {
+  const welded = weldVertices(input, WELD_TOLERANCE);
+  const cleaned = removeBadFaces(welded.mesh);
+  const shells = removeSmallShells(cleaned.mesh);
+  const unified = unifyWinding(shells.mesh);
+  const filled = fillHoles(unified.mesh);
+
+  return {
+    mesh: compactVertices(filled.mesh),
+    report: {
+      weldedVertices: welded.merged,
+      removedFaces: cleaned.removed,
+      removedShells: shells.removed,
+      flippedFaces: unified.flipped,
+      filledHoles: filled.filled,
+    },
+  };
+}
+
+export function hasRepairs(report: RepairReport): boolean {
+  return Object.values(report).some((count) => count > 0);
+}
+
+// Merges vertices closer than `tolerance`, which closes the hairline cracks
+// left by exporters that write each facet's corners independently
+function weldVertices(mesh: Mesh, tolerance: number): { mesh: Mesh; merged: number } {
+  const count = vertexCount(mesh);
+  const v = mesh.vertices;
+  const cells = new Map<string, number[]>();
+  const remap = new Uint32Array(count);
+  const vertices: number[] = [];
+  const cell = (value: number) => Math.floor(value / tolerance);
+
+  for (let i = 0; i < count; i++) {
+    const x = v[i * 3];
+    const y = v[i * 3 + 1];
+    const z = v[i * 3 + 2];
+    const cx = cell(x);
+    const cy = cell(y);
+    const cz = cell(z);
+    let match = -1;
+    for (let dx = -1; dx <= 1 && match < 0; dx++) {
+      for (let dy = -1; dy <= 1 && match < 0; dy++) {
+        for (let dz = -1; dz <= 1 && match < 0; dz++) {
+          for (const candidate of cells.get(`${cx + dx},${cy + dy},${cz + dz}`) ?? []) {
+            const ex = vertices[candidate * 3] - x;
+            const ey = vertices[candidate * 3 + 1] - y;
+            const ez = vertices[candidate * 3 + 2] - z;
+            if (ex * ex + ey * ey + ez * ez <= tolerance * tolerance) {
+              match = candidate;
+              break;
+            }
+          }
+        }
+      }
+    }
+    if (match < 0) {
+      match = vertices.length / 3;
+      vertices.push(x, y, z);
+      const key = `${cx},${cy},${cz}`;
+      const bucket = cells.get(key);
+      if (bucket) bucket.push(match);
+      else cells.set(key, [match]);
+    }
+    remap[i] = match;
+  }
+
+  return {
+    mesh: { vertices: Float64Array.from(vertices), faces: mesh.faces.map((index) => remap[index]) },
+    merged: count - vertices.length / 3,
+  };
+}
+
+// Drops zero-area faces and exact duplicates (the same three vertices,
+// in either winding)
+function removeBadFaces(mesh: Mesh): { mesh: Mesh; removed: number } {
+  const seen = new Set<string>();
+  const faces: number[] = [];
+  for (let face = 0; face < faceCount(mesh); face++) {
+    if (isDegenerateFace(mesh, face)) continue;
+    const corners = Array.from(mesh.faces.subarray(face * 3, face * 3 + 3));
+    const key = corners.slice().sort((a, b) => a - b).join(",");
+    if (seen.has(key)) continue;
+    seen.add(key);
+    faces.push(...corners);
+  }
+  return {
+    mesh: { vertices: mesh.vertices, faces: Uint32Array.from(faces) },
+    removed: faceCount(mesh) - faces.length / 3,
+  };
+}
+
+// Removes stray fragments (leftover construction geometry, specks) that would
+// otherwise be quoted and printed as separate parts
+function removeSmallShells(mesh: Mesh): { mesh: Mesh; removed: number } {
+  const { count, faceShell } = findShells(mesh);
+  if (count < 2) {
+    return { mesh, removed: 0 };
+  }
+
+  const shellFaces: number[][] = Array.from({ length: count }, () => []);
+  for (let face = 0; face < faceShell.length; face++) {
+    shellFaces[faceShell[face]].push(face);
+  }
+
+  const faces: number[] = [];
+  let removed = 0;
+  for (const shell of shellFaces) {
+    const shellMesh = subMesh(mesh, shell);
+    if (shell.length < MIN_SHELL_FACES || Math.abs(signedVolume(shellMesh)) < MIN_SHELL_VOLUME) {
+      removed++;
+      continue;
+    }
+    for (const face of shell) {
+      faces.push(mesh.faces[face * 3], mesh.faces[face * 3 + 1], mesh.faces[face * 3 + 2]);
+    }
+  }
+
+  // Never throw the whole model away
+  if (faces.length === 0) {
+    return { mesh, removed: 0 };
+  }
+  return { mesh: { vertices: mesh.vertices, faces: Uint32Array.from(faces) }, removed };
+}
+
+// Walks each shell across its manifold edges, flipping neighbours so every
+// shared edge is traversed in opposite directions, then orients each closed
+// shell by how deeply it is nested: outer shells enclose positive volume and
+// the cavities inside them negative, so a correctly wound hollow part is left
+// as it is
+function unifyWinding(mesh: Mesh): { mesh: Mesh; flipped: number } {
+  const count = faceCount(mesh);
+  const neighbours: { face: number; sameDirection: boolean }[][] = Array.from({ length: count }, () => []);
+  for (const edge of Array.from(buildEdgeMap(mesh).values())) {
+    if (edge.faces.length !== 2) continue;
+    const [p, q] = edge.faces;
+    const sameDirection = edge.directions[0] === edge.directions[1];
+    neighbours[p].push({ face: q, sameDirection });
+    neighbours[q].push({ face: p, sameDirection });
+  }
+
+  const flip = new Uint8Array(count);
+  const visited = new Uint8Array(count);
+  const components: number[][] = [];
+  for (let seed = 0; seed < count; seed++) {
+    if (visited[seed]) continue;
+    const component = [seed];
+    const queue = [seed];
+    visited[seed] = 1;
+    while (queue.length > 0) {
+      const face = queue.pop()!;
+      for (const { face: next, sameDirection } of neighbours[face]) {
+        if (visited[next]) continue;
+        visited[next] = 1;
+        // Flip the neighbour when, after our own flip, both walk the edge the same way
+        flip[next] = sameDirection ? 1 - flip[face] : flip[face];
+        component.push(next);
+        queue.push(next);
+      }
+    }
+    components.push(component);
+  }
+
+  const faces = Uint32Array.from(mesh.faces);
+  const orient = (face: number, flipped: boolean) => {
+    const a = mesh.faces[face * 3 + 1];
+    const b = mesh.faces[face * 3 + 2];
+    faces[face * 3 + 1] = flipped ? b : a;
+    faces[face * 3 + 2] = flipped ? a : b;
+  };
+  for (let face = 0; face < count; face++) {
+    orient(face, flip[face] === 1);
+  }
+
+  const shells = components.map((component) => ({
+    component,
+    mesh: subMesh({ vertices: mesh.vertices, faces }, component),
+    bounds: faceBounds(mesh, component),
+    closed: component.every((face) => neighbours[face].length === 3),
+  }));
+  for (const shell of shells) {
+    const probe = faceCentroid(mesh, shell.component[0]);
+    // Only shells whose box holds the probe can enclose it; the ray cast is
+    // far too slow to run against every shell of a file with hundreds
+    const depth = shells.filter((other) =>
+      other !== shell && other.closed && boxContains(other.bounds, probe) && encloses(other.mesh, probe)).length;
+    const volume = signedVolume(shell.mesh);
+    if (depth % 2 === 0 ? volume < 0 : volume > 0) {
+      for (const face of shell.component) {
+        flip[face] = 1 - flip[face];
+        orient(face, flip[face] === 1);
+      }
+    }
+  }
+
+  let flipped = 0;
+  for (let face = 0; face < count; face++) flipped += flip[face];
+  return { mesh: { vertices: mesh.vertices, faces }, flipped };
+}
+
+// Closes small boundary loops with a fan around their centroid. Larger
+// openings are left alone: guessing the intended surface there would change
+// the part, not repair it.
+function fillHoles(mesh: Mesh): { mesh: Mesh; filled: number } {
+  // Boundary edges keyed by start vertex, oriented the way their face walks them
+  const next = new Map<number, number>();
+  for (const edge of Array.from(buildEdgeMap(mesh).values())) {
+    if (edge.faces.length !== 1) continue;
+    const [from, to] = edge.directions[0] === 1 ? [edge.a, edge.b] : [edge.b, edge.a];
+    // The patch walks the loop backwards, so link to → from
+    if (next.has(to)) return { mesh, filled: 0 }; // Pinched boundary, leave it alone
+    next.set(to, from);
+  }
+
+  const vertices = Array.from(mesh.vertices);
+  const faces = Array.from(mesh.faces);
+  let filled = 0;
+  const visited = new Set<number>();
+  for (const start of Array.from(next.keys())) {
+    if (visited.has(start)) continue;
+    const loop: number[] = [];
+    let current: number | undefined = start;
+    while (current !== undefined && !visited.has(current)) {
+      visited.add(current);
+      loop.push(current);
+      current = next.get(current);
+    }
+    if (current !== start || loop.length < 3 || loop.length > MAX_HOLE_EDGES) continue;
+
+    if (loop.length === 3) {
+      faces.push(loop[0], loop[1], loop[2]);
+    } else {
+      const center = vertices.length / 3;
+      const centroid = [0, 0, 0];
+      for (const index of loop) {
+        for (let axis = 0; axis < 3; axis++) centroid[axis] += mesh.vertices[index * 3 + axis] / loop.length;
+      }
+      vertices.push(...centroid);
+      for (let i = 0; i < loop.length; i++) {
+        faces.push(center, loop[i], loop[(i + 1) % loop.length]);
+      }
+    }
+    filled++;
+  }
+
+  return { mesh: { vertices: Float64Array.from(vertices), faces: Uint32Array.from(faces) }, filled };
+}
+
+function faceCentroid(mesh: Mesh, face: number): Vec3 {
+  const [a, b, c] = getTriangle(mesh, face);
+  return [(a[0] + b[0] + c[0]) / 3, (a[1] + b[1] + c[1]) / 3, (a[2] + b[2] + c[2]) / 3];
+}
+
+// Whether a point lies inside a closed shell: a ray from it crosses the
+// surface an odd number of times. The ray is skewed off the axes so it
+// doesn't graze the edges of axis-aligned faces.
+function encloses(shell: Mesh, point: Vec3): boolean {
+  const direction: Vec3 = [0.8017, 0.4733, 0.3651];
+  let crossings = 0;
+  for (let face = 0; face < faceCount(shell); face++) {
+    const [a, b, c] = getTriangle(shell, face);
+    // Möller–Trumbore
+    const ab = sub(b, a);
+    const ac = sub(c, a);
+    const p = cross(direction, ac);
+    const det = dot(ab, p);
+    if (Math.abs(det) < 1e-12) continue;
+    const t0 = sub(point, a);
+    const u = dot(t0, p) / det;
+    if (u < 0 || u > 1) continue;
+    const q = cross(t0, ab);
+    const v = dot(direction, q) / det;
+    if (v < 0 || u + v > 1) continue;
+    if (dot(ac, q) / det > 0) crossings++;
+  }
+  return crossings % 2 === 1;
+}
+
+// Bounds of just the listed faces; sub-meshes share every vertex of the mesh
+function faceBounds(mesh: Mesh, faceList: number[]): BoundingBox {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const face of faceList) {
+    for (let corner = 0; corner < 3; corner++) {
+      const vertex = mesh.faces[face * 3 + corner] * 3;
+      for (let axis = 0; axis < 3; axis++) {
+        const value = mesh.vertices[vertex + axis];
+        if (value < min[axis]) min[axis] = value;
+        if (value > max[axis]) max[axis] = value;
+      }
+    }
+  }
+  return { min, max };
+}
+
+function boxContains(box: BoundingBox, point: Vec3): boolean {
+  return point.every((value, axis) => value >= box.min[axis] && value <= box.max[axis]);
+}
+
+function subMesh(mesh: Mesh, faceList: number[]): Mesh {
+  const faces = new Uint32Array(faceList.length * 3);
+  faceList.forEach((face, i) => faces.set(mesh.faces.subarray(face * 3, face * 3 + 3), i * 3));
+  return { vertices: mesh.vertices, faces };
+}
+
+// Drops vertices no face refers to any more
+function compactVertices(mesh: Mesh): Mesh {
+  const remap = new Int32Array(vertexCount(mesh)).fill(-1);
+  const vertices: number[] = [];
+  const faces = mesh.faces.map((index) => {
+    if (remap[index] < 0) {
+      remap[index] = vertices.length / 3;
+      vertices.push(mesh.vertices[index * 3], mesh.vertices[index * 3 + 1], mesh.vertices[index * 3 + 2]);
+    }
+    return remap[index];
+  });
+  return { vertices: Float64Array.from(vertices), faces };
+}
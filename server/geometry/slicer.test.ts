@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { meshFromTriangles } from "./mesh";
+import { estimatePrintTime, sliceMesh } from "./slicer";
+
+// A closed cylinder standing on the XY plane, its side split into `sides` facets
+function cylinder(sides: number, radius: number, height: number): number[] {
+  const triangles: number[] = [];
+  for (let i = 0; i < sides; i++) {
+    const a = (i / sides) * 2 * Math.PI;
+    const b = ((i + 1) / sides) * 2 * Math.PI;
+    const [x0, y0, x1, y1] = [radius * Math.cos(a), radius * Math.sin(a), radius * Math.cos(b), radius * Math.sin(b)];
+    triangles.push(0, 0, 0, x1, y1, 0, x0, y0, 0);
+    triangles.push(0, 0, height, x0, y0, height, x1, y1, height);
+    triangles.push(x0, y0, 0, x1, y1, 0, x1, y1, height);
+    triangles.push(x0, y0, 0, x1, y1, height, x0, y0, height);
+  }
+  return triangles;
+}
+
+test("print time doesn't grow with tessellation", () => {
+  const coarse = estimatePrintTime(sliceMesh(meshFromTriangles(cylinder(64, 20, 30)))).printTime;
+  const fine = estimatePrintTime(sliceMesh(meshFromTriangles(cylinder(4096, 20, 30)))).printTime;
+  assert.ok(Math.abs(fine - coarse) / coarse < 0.02, `${coarse}s at 64 sides, ${fine}s at 4096`);
+});
@@ -0,0 +1,308 @@
+import { boundingBox, faceCount, faceNormal, type Mesh } from "./mesh";
+
+export interface SlicerProfile {
+  layerHeight: number; // mm
+  firstLayerHeight: number; // mm
+  lineWidth: number; // mm
+  perimeters: number;
+  topBottomLayers: number;
+  infillDensity: number; // 0-1
+  perimeterSpeed: number; // mm/s
+  infillSpeed: number; // mm/s
+  solidInfillSpeed: number; // mm/s
+  firstLayerSpeed: number; // mm/s
+  travelSpeed: number; // mm/s
+  acceleration: number; // mm/s²
+  layerChangeTime: number; // s, Z move plus retract/unretract
+}
+
+// Our usual PLA settings on the Ender 3 S1 Pro
+export const DEFAULT_SLICER_PROFILE: SlicerProfile = {
+  layerHeight: 0.2,
+  firstLayerHeight: 0.2,
+  lineWidth: 0.42,
+  perimeters: 2,
+  topBottomLayers: 4,
+  infillDensity: 0.2,
+  perimeterSpeed: 45,
+  infillSpeed: 80,
+  solidInfillSpeed: 60,
+  firstLayerSpeed: 25,
+  travelSpeed: 150,
+  acceleration: 500,
+  layerChangeTime: 1,
+};
+
+export interface LayerSlice {
+  z: number;
+  area: number; // mm², holes subtracted
+  perimeterLength: number; // mm
+  islands: number; // closed outlines (outer walls and holes)
+  segments: number;
+}
+
+export interface SliceEstimate {
+  layers: number;
+  printTime: number; // seconds
+  extrusionLength: number; // mm of extruded line
+  extrudedVolume: number; // mm³, including supports
+  shellVolume: number; // mm³, walls and solid top/bottom fill
+  infillVolume: number; // mm³, sparse fill
+}
+
+export type Polygon = [number, number][];
+
+export interface LayerContours {
+  z: number; // cutting plane, mid-layer
+  top: number; // nozzle height above the bed
+  height: number; // layer thickness
+  loops: Polygon[]; // outer outlines counter-clockwise, holes clockwise
+}
+
+type Segment = [number, number, number, number, string, string];
+
+// Cuts the mesh (already in print orientation) with horizontal planes at the
+// middle of every layer. Each crossing triangle contributes one directed
+// segment; with outward-facing normals the directions give outer outlines
+// counter-clockwise and holes clockwise, so the shoelace sum over segments
+// is the net cross-section area without chaining loops first.
+export function sliceMesh(mesh: Mesh, profile: SlicerProfile = DEFAULT_SLICER_PROFILE): LayerSlice[] {
+  const layers: LayerSlice[] = [];
+  sweepLayers(mesh, profile, (plane, segments) => {
+    let area = 0;
+    let perimeterLength = 0;
+    const islands = new LoopCounter();
+    for (const [x1, y1, x2, y2, startKey, endKey] of segments) {
+      area += (x1 * y2 - x2 * y1) / 2;
+      perimeterLength += Math.hypot(x2 - x1, y2 - y1);
+      islands.link(startKey, endKey);
+    }
+    layers.push({ z: plane.z, area: Math.max(0, area), perimeterLength, islands: islands.count(), segments: segments.length });
+  });
+  return layers;
+}
+
+// Slices into closed outlines for tool path generation. Segments are joined
+// end to start through the mesh edge they cross; chains that don't close
+// (from open or non-manifold meshes) are dropped.
+export function sliceContours(mesh: Mesh, profile: SlicerProfile = DEFAULT_SLICER_PROFILE): LayerContours[] {
+  const layers: LayerContours[] = [];
+  sweepLayers(mesh, profile, (plane, segments) => {
+    const byStart = new Map<string, Segment>();
+    for (const segment of segments) byStart.set(segment[4], segment);
+
+    const loops: Polygon[] = [];
+    const used = new Set<string>();
+    for (const first of segments) {
+      if (used.has(first[4])) continue;
+      const loop: Polygon = [];
+      let segment: Segment | undefined = first;
+      while (segment && !used.has(segment[4])) {
+        used.add(segment[4]);
+        loop.push([segment[0], segment[1]]);
+        segment = byStart.get(segment[5]);
+      }
+      if (segment === first && loop.length >= 3) loops.push(loop);
+    }
+    layers.push({ ...plane, loops });
+  });
+  return layers;
+}
+
+function sweepLayers(
+  mesh: Mesh,
+  profile: SlicerProfile,
+  visit: (plane: { z: number; top: number; height: number }, segments: Segment[]) => void,
+) {
+  const box = boundingBox(mesh);
+  const height = box.max[2] - box.min[2];
+  if (faceCount(mesh) === 0 || height <= 0) {
+    return;
+  }
+
+  const planes: { z: number; top: number; height: number }[] = [];
+  let top = Math.min(profile.firstLayerHeight, height);
+  planes.push({ z: box.min[2] + top / 2, top, height: top });
+  while (top < height - 1e-6) {
+    const next = Math.min(top + profile.layerHeight, height);
+    planes.push({ z: box.min[2] + (top + next) / 2, top: next, height: next - top });
+    top = next;
+  }
+
+  // Sweep the layers upwards over triangles sorted by their lowest point
+  const count = faceCount(mesh);
+  const v = mesh.vertices;
+  const f = mesh.faces;
+  const order = Array.from({ length: count }, (_, i) => i);
+  const lowest = (face: number) => Math.min(v[f[face * 3] * 3 + 2], v[f[face * 3 + 1] * 3 + 2], v[f[face * 3 + 2] * 3 + 2]);
+  const highest = (face: number) => Math.max(v[f[face * 3] * 3 + 2], v[f[face * 3 + 1] * 3 + 2], v[f[face * 3 + 2] * 3 + 2]);
+  order.sort((a, b) => lowest(a) - lowest(b));
+
+  let active: number[] = [];
+  let nextFace = 0;
+  for (const plane of planes) {
+    while (nextFace < count && lowest(order[nextFace]) <= plane.z) {
+      active.push(order[nextFace++]);
+    }
+    active = active.filter((face) => highest(face) >= plane.z);
+
+    const segments: Segment[] = [];
+    for (const face of active) {
+      const segment = intersectFace(mesh, face, plane.z);
+      if (segment) segments.push(segment);
+    }
+    visit(plane, segments);
+  }
+}
+
+// Turns layer outlines into tool paths and times them with a trapezoidal
+// velocity profile per move
+export function estimatePrintTime(
+  layers: LayerSlice[],
+  profile: SlicerProfile = DEFAULT_SLICER_PROFILE,
+  supportVolume = 0,
+): SliceEstimate {
+  const w = profile.lineWidth;
+  let printTime = 0;
+  let extrusionLength = 0;
+  let extrudedVolume = 0;
+  let shellVolume = 0;
+  let infillVolume = 0;
+
+  layers.forEach((layer, index) => {
+    if (layer.segments === 0) return;
+    const layerHeight = index === 0 ? profile.firstLayerHeight : profile.layerHeight;
+    const first = index === 0;
+
+    // Area that must be solid because nothing lies within N layers above or below
+    const below = minArea(layers, index - profile.topBottomLayers, index - 1);
+    const above = minArea(layers, index + 1, index + profile.topBottomLayers);
+    const solidArea = Math.min(layer.area, Math.max(0, layer.area - below) + Math.max(0, layer.area - above));
+    const wallArea = Math.min(layer.area, layer.perimeterLength * w * profile.perimeters);
+    const solidFill = Math.max(0, solidArea - wallArea);
+    const sparseFill = Math.max(0, layer.area - wallArea - solidFill);
+
+    const wallLength = layer.perimeterLength * profile.perimeters;
+    const solidLength = solidFill / w;
+    const sparseLength = (sparseFill * profile.infillDensity) / w;
+    // Infill runs in straight lines across the island
+    const span = Math.max(Math.sqrt(layer.area / Math.max(1, layer.islands)), w);
+    const infillLines = (solidLength + sparseLength) / span;
+
+    // Printers carry speed through the shallow corners of a tessellated curve,
+    // so walls slow down about as often as the infill, not at every facet
+    printTime += moveTime(wallLength, first ? profile.firstLayerSpeed : profile.perimeterSpeed, span, profile.acceleration);
+    printTime += moveTime(solidLength, first ? profile.firstLayerSpeed : profile.solidInfillSpeed, span, profile.acceleration);
+    printTime += moveTime(sparseLength, profile.infillSpeed, span, profile.acceleration);
+
+    // One travel to each wall loop plus a short hop between infill lines
+    const travels = layer.islands * profile.perimeters;
+    printTime += moveTime(travels * span, profile.travelSpeed, span, profile.acceleration);
+    printTime += infillLines * moveTime(w * 2, profile.travelSpeed, w * 2, profile.acceleration);
+    printTime += profile.layerChangeTime;
+
+    const length = wallLength + solidLength + sparseLength;
+    extrusionLength += length;
+    extrudedVolume += length * w * layerHeight;
+    shellVolume += (wallLength + solidLength) * w * layerHeight;
+    infillVolume += sparseLength * w * layerHeight;
+  });
+
+  // Support structures are printed like sparse infill
+  if (supportVolume > 0) {
+    const supportLength = supportVolume / (w * profile.layerHeight);
+    printTime += moveTime(supportLength, profile.infillSpeed, 10, profile.acceleration);
+    extrusionLength += supportLength;
+    extrudedVolume += supportVolume;
+  }
+
+  return { layers: layers.length, printTime, extrusionLength, extrudedVolume, shellVolume, infillVolume };
+}
+
+// Time to cover `distance` as moves of `segment` length each, accelerating
+// to `speed` and braking back to rest at the end of every move
+export function moveTime(distance: number, speed: number, segment: number, acceleration: number): number {
+  if (distance <= 0) return 0;
+  const moves = Math.max(1, distance / Math.max(segment, 1e-3));
+  const length = distance / moves;
+  const rampDistance = (speed * speed) / acceleration;
+  const time = length < rampDistance
+    ? 2 * Math.sqrt(length / acceleration)
+    : length / speed + speed / acceleration;
+  return moves * time;
+}
+
+function minArea(layers: LayerSlice[], from: number, to: number): number {
+  let min = Infinity;
+  for (let i = from; i <= to; i++) {
+    min = Math.min(min, i >= 0 && i < layers.length ? layers[i].area : 0);
+  }
+  return min === Infinity ? 0 : min;
+}
+
+// Segment where the plane z crosses the face, directed so the face's outward
+// normal lies on its right. Endpoint keys identify the crossed mesh edges so
+// neighbouring segments can be joined into loops.
+function intersectFace(mesh: Mesh, face: number, z: number): Segment | null {
+  const v = mesh.vertices;
+  const corners = [mesh.faces[face * 3], mesh.faces[face * 3 + 1], mesh.faces[face * 3 + 2]];
+  const points: { x: number; y: number; key: string }[] = [];
+  for (let i = 0; i < 3; i++) {
+    const a = corners[i];
+    const b = corners[(i + 1) % 3];
+    const za = v[a * 3 + 2];
+    const zb = v[b * 3 + 2];
+    // Half-open test so a vertex exactly on the plane is counted once
+    if ((za <= z) === (zb <= z)) continue;
+    const t = (z - za) / (zb - za);
+    points.push({
+      x: v[a * 3] + (v[b * 3] - v[a * 3]) * t,
+      y: v[a * 3 + 1] + (v[b * 3 + 1] - v[a * 3 + 1]) * t,
+      key: a < b ? `${a}:${b}` : `${b}:${a}`,
+    });
+  }
+  if (points.length !== 2) return null;
+
+  const normal = faceNormal(mesh, face);
+  let [p, q] = points;
+  const dx = q.x - p.x;
+  const dy = q.y - p.y;
+  if (normal[0] * dy - normal[1] * dx < 0) {
+    [p, q] = [q, p];
+  }
+  return [p.x, p.y, q.x, q.y, p.key, q.key];
+}
+
+// Union-find over segment endpoints; every connected chain is one outline
+class LoopCounter {
+  private parent = new Map<string, string>();
+
+  link(a: string, b: string) {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) this.parent.set(rootA, rootB);
+  }
+
+  count(): number {
+    let roots = 0;
+    this.parent.forEach((parent, key) => {
+      if (parent === key) roots++;
+    });
+    return roots;
+  }
+
+  private find(key: string): string {
+    let parent = this.parent.get(key);
+    if (parent === undefined) {
+      this.parent.set(key, key);
+      return key;
+    }
+    while (parent !== key) {
+      const grandparent: string = this.parent.get(parent)!;
+      this.parent.set(key, grandparent);
+      key = parent;
+      parent = grandparent;
+    }
+    return key;
+  }
+}
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { faceCount, meshFromTriangles, meshVolume } from "./mesh";
+import { parseStl, writeBinaryStl } from "./stl";
+import { cube } from "./test-fixtures";
+
+function asciiStl(triangles: number[]): string {
+  const facets: string[] = [];
+  for (let i = 0; i < triangles.length; i += 9) {
+    const vertices = [0, 3, 6].map((k) => `vertex ${triangles.slice(i + k, i + k + 3).join(" ")}`);
+    facets.push(`facet normal 0 0 0\nouter loop\n${vertices.join("\n")}\nendloop\nendfacet`);
+  }
+  return `solid part\n${facets.join("\n")}\nendsolid part\n`;
+}
+
+test("binary and ASCII files read as the same part", () => {
+  const binary = parseStl(writeBinaryStl(meshFromTriangles(cube(0, 20))));
+  const ascii = parseStl(Buffer.from(asciiStl(cube(0, 20))));
+  assert.equal(faceCount(binary), 12);
+  assert.equal(faceCount(ascii), 12);
+  assert.equal(meshVolume(binary), 8000);
+  assert.equal(meshVolume(ascii), 8000);
+});
+
+test("a binary file whose header starts with \"solid\" is still read as binary", () => {
+  const file = writeBinaryStl(meshFromTriangles(cube(0, 20)), "solid exported by a CAD package");
+  assert.equal(meshVolume(parseStl(file)), 8000);
+});
+
+test("a truncated binary file keeps its complete triangles", () => {
+  const file = writeBinaryStl(meshFromTriangles(cube(0, 20)));
+  // Half of the last 50-byte triangle is missing
+  assert.equal(faceCount(parseStl(file.subarray(0, file.length - 25))), 11);
+  // Too short for the triangle count: not a binary file, and no facets as text
+  assert.equal(faceCount(parseStl(file.subarray(0, 83))), 0);
+});
+
+test("malformed ASCII files are rejected", () => {
+  assert.throws(
+    () => parseStl(Buffer.from(asciiStl(cube(0, 20)).replace("vertex 0 0 0", "vertex 0 zero 0"))),
+    /malformed vertex coordinates/,
+  );
+  const [first] = asciiStl(cube(0, 20)).split("endfacet");
+  assert.throws(() => parseStl(Buffer.from(first.replace(/vertex[^\n]*\n/, ""))), /incomplete vertex loop/);
+});
@@ -0,0 +1,83 @@
+import { cross, getTriangle, length, meshFromTriangles, sub, type Mesh } from "./mesh";
+
+const BINARY_HEADER_SIZE = 80;
+const BINARY_TRIANGLE_SIZE = 50;
+
+// Binary STL files may start with "solid" too (several CAD exporters write
+// it into the header), so the size implied by the triangle count is the
+// reliable discriminator.
+export function isBinaryStl(buffer: Buffer): boolean {
+  if (buffer.length < BINARY_HEADER_SIZE + 4) {
+    return false;
+  }
+  const triangleCount = buffer.readUInt32LE(BINARY_HEADER_SIZE);
+  const expectedSize = BINARY_HEADER_SIZE + 4 + triangleCount * BINARY_TRIANGLE_SIZE;
+  if (expectedSize === buffer.length) {
+    return true;
+  }
+  return !buffer.subarray(0, 512).toString("ascii").trimStart().toLowerCase().startsWith("solid");
+}
+
+export function parseStl(buffer: Buffer): Mesh {
+  return isBinaryStl(buffer) ? parseBinaryStl(buffer) : parseAsciiStl(buffer.toString("utf8"));
+}
+
+function parseBinaryStl(buffer: Buffer): Mesh {
+  const declared = buffer.readUInt32LE(BINARY_HEADER_SIZE);
+  const available = Math.floor((buffer.length - BINARY_HEADER_SIZE - 4) / BINARY_TRIANGLE_SIZE);
+  const triangleCount = Math.min(declared, available);
+  const corners = new Float32Array(triangleCount * 9);
+
+  for (let i = 0; i < triangleCount; i++) {
+    // Skip the 12-byte facet normal; it is recomputed from the vertices
+    const offset = BINARY_HEADER_SIZE + 4 + i * BINARY_TRIANGLE_SIZE + 12;
+    for (let j = 0; j < 9; j++) {
+      corners[i * 9 + j] = buffer.readFloatLE(offset + j * 4);
+    }
+  }
+
+  return meshFromTriangles(corners);
+}
+
+function parseAsciiStl(text: string): Mesh {
+  const corners: number[] = [];
+  const vertexPattern = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = vertexPattern.exec(text)) !== null) {
+    const x = parseFloat(match[1]);
+    const y = parseFloat(match[2]);
+    const z = parseFloat(match[3]);
+    if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) {
+      throw new Error("Invalid STL file: malformed vertex coordinates");
+    }
+    corners.push(x, y, z);
+  }
+
+  if (corners.length % 9 !== 0) {
+    throw new Error("Invalid STL file: facet with an incomplete vertex loop");
+  }
+
+  return meshFromTriangles(corners);
+}
+
+export function writeBinaryStl(mesh: Mesh, header = "PointZero Designs"): Buffer {
+  const triangleCount = mesh.faces.length / 3;
+  const buffer = Buffer.alloc(BINARY_HEADER_SIZE + 4 + triangleCount * BINARY_TRIANGLE_SIZE);
+  buffer.write(header.slice(0, BINARY_HEADER_SIZE), 0, "ascii");
+  buffer.writeUInt32LE(triangleCount, BINARY_HEADER_SIZE);
+
+  for (let face = 0; face < triangleCount; face++) {
+    let offset = BINARY_HEADER_SIZE + 4 + face * BINARY_TRIANGLE_SIZE;
+    const [a, b, c] = getTriangle(mesh, face);
+    const normal = cross(sub(b, a), sub(c, a));
+    const size = length(normal) || 1;
+    for (const value of [normal[0] / size, normal[1] / size, normal[2] / size, ...a, ...b, ...c]) {
+      buffer.writeFloatLE(value, offset);
+      offset += 4;
+    }
+    buffer.writeUInt16LE(0, offset);
+  }
+
+  return buffer;
+}
@@ -0,0 +1,106 @@
+import { faceCount, faceNormal, getTriangle, boundingBox, length, type Mesh } from "./mesh";
+
+// Supports are printed as sparse zig-zag infill, so only a fraction of the
+// column under each overhang is actually plastic
+const SUPPORT_FILL_RATIO = 0.15;
+// Faces this close to the lowest point rest on the bed and need no support
+const BED_CONTACT_TOLERANCE = 0.1; // mm
+const GRID_CELLS = 64;
+
+export interface SupportEstimate {
+  overhangArea: number; // mm², projected onto the bed
+  supportVolume: number; // mm³ of support plastic
+  overhangFaces: Uint8Array; // 1 for every face that needs support
+}
+
+// Estimates support material for the mesh as oriented (Z up). A face needs
+// support when it leans further than `overhangAngle` degrees from vertical.
+// Each such face is supported by a column that reaches down to the bed or
+// to the nearest upward-facing part of the model below it.
+export function estimateSupports(mesh: Mesh, overhangAngle: number): SupportEstimate {
+  const count = faceCount(mesh);
+  const overhangFaces = new Uint8Array(count);
+  if (count === 0) {
+    return { overhangArea: 0, supportVolume: 0, overhangFaces };
+  }
+
+  const box = boundingBox(mesh);
+  const bedZ = box.min[2];
+  const threshold = Math.cos(((90 - overhangAngle) * Math.PI) / 180);
+  const surfaces = new SurfaceGrid(mesh, box.min, box.max);
+
+  let overhangArea = 0;
+  let columnVolume = 0;
+  for (let face = 0; face < count; face++) {
+    const normal = faceNormal(mesh, face);
+    const size = length(normal);
+    if (size === 0) continue;
+    // Cosine between the face normal and straight down
+    const downward = -normal[2] / size;
+    if (downward <= threshold) continue;
+
+    const [a, b, c] = getTriangle(mesh, face);
+    const centroid = [(a[0] + b[0] + c[0]) / 3, (a[1] + b[1] + c[1]) / 3, (a[2] + b[2] + c[2]) / 3];
+    if (Math.max(a[2], b[2], c[2]) - bedZ <= BED_CONTACT_TOLERANCE) continue;
+
+    overhangFaces[face] = 1;
+    const projected = (size / 2) * downward;
+    const floor = surfaces.highestBelow(centroid[0], centroid[1], centroid[2], face) ?? bedZ;
+    overhangArea += projected;
+    columnVolume += projected * Math.max(0, centroid[2] - floor);
+  }
+
+  return { overhangArea, supportVolume: columnVolume * SUPPORT_FILL_RATIO, overhangFaces };
+}
+
+// Buckets upward-facing faces by their XY footprint so a vertical ray can be
+// tested against only the faces in its cell
+class SurfaceGrid {
+  private cells: number[][];
+  private cellX: number;
+  private cellY: number;
+
+  constructor(private mesh: Mesh, private min: number[], max: number[]) {
+    this.cellX = Math.max((max[0] - min[0]) / GRID_CELLS, 1e-6);
+    this.cellY = Math.max((max[1] - min[1]) / GRID_CELLS, 1e-6);
+    this.cells = Array.from({ length: GRID_CELLS * GRID_CELLS }, () => []);
+
+    for (let face = 0; face < faceCount(mesh); face++) {
+      if (faceNormal(mesh, face)[2] <= 0) continue;
+      const [a, b, c] = getTriangle(mesh, face);
+      const x0 = this.column(Math.min(a[0], b[0], c[0]), 0);
+      const x1 = this.column(Math.max(a[0], b[0], c[0]), 0);
+      const y0 = this.column(Math.min(a[1], b[1], c[1]), 1);
+      const y1 = this.column(Math.max(a[1], b[1], c[1]), 1);
+      for (let x = x0; x <= x1; x++) {
+        for (let y = y0; y <= y1; y++) {
+          this.cells[y * GRID_CELLS + x].push(face);
+        }
+      }
+    }
+  }
+
+  // Height of the highest upward-facing surface strictly below (x, y, z)
+  highestBelow(x: number, y: number, z: number, exclude: number): number | undefined {
+    let best: number | undefined;
+    for (const face of this.cells[this.column(y, 1) * GRID_CELLS + this.column(x, 0)]) {
+      if (face === exclude) continue;
+      const [a, b, c] = getTriangle(this.mesh, face);
+      const denominator = (b[1] - c[1]) * (a[0] - c[0]) + (c[0] - b[0]) * (a[1] - c[1]);
+      if (denominator === 0) continue;
+      const u = ((b[1] - c[1]) * (x - c[0]) + (c[0] - b[0]) * (y - c[1])) / denominator;
+      const v = ((c[1] - a[1]) * (x - c[0]) + (a[0] - c[0]) * (y - c[1])) / denominator;
+      if (u < 0 || v < 0 || u + v > 1) continue;
+      const height = u * a[2] + v * b[2] + (1 - u - v) * c[2];
+      if (height < z - 1e-6 && (best === undefined || height > best)) {
+        best = height;
+      }
+    }
+    return best;
+  }
+
+  private column(value: number, axis: 0 | 1): number {
+    const size = axis === 0 ? this.cellX : this.cellY;
+    return Math.min(GRID_CELLS - 1, Math.max(0, Math.floor((value - this.min[axis]) / size)));
+  }
+}
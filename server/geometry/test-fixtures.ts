@@ -0,0 +1,97 @@
+import { deflateRawSync } from "zlib";
+
+// Meshes and files shared by the geometry and route tests
+
+// An axis-aligned cube as 12 triangles, wound outwards or, for a cavity, inwards
+export function cube(min: number, size: number, inward = false): number[] {
+  const max = min + size;
+  const corner = (i: number) => [i & 1 ? max : min, i & 2 ? max : min, i & 4 ? max : min];
+  const quads = [
+    [0, 2, 3, 1], [4, 5, 7, 6], // -z, +z
+    [0, 1, 5, 4], [2, 6, 7, 3], // -y, +y
+    [0, 4, 6, 2], [1, 3, 7, 5], // -x, +x
+  ];
+  const triangles: number[] = [];
+  for (const [a, b, c, d] of quads) {
+    const faces = inward ? [[a, c, b], [a, d, c]] : [[a, b, c], [a, c, d]];
+    for (const face of faces) for (const index of face) triangles.push(...corner(index));
+  }
+  return triangles;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// A ZIP archive with every entry deflated
+export function zipArchive(entries: Record<string, string | Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(entries)) {
+    const data = Buffer.from(content);
+    const compressed = deflateRawSync(data);
+    const fileName = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(8, 10);
+    header.writeUInt32LE(crc32(data), 16);
+    header.writeUInt32LE(compressed.length, 20);
+    header.writeUInt32LE(data.length, 24);
+    header.writeUInt16LE(fileName.length, 28);
+    header.writeUInt32LE(offset, 42);
+    locals.push(local, fileName, compressed);
+    central.push(header, fileName);
+    offset += local.length + fileName.length + compressed.length;
+  }
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+// The XML of a 3MF model part with one mesh object per triangle list, and
+// the build items given, or one item per object
+export function threemfModel(objects: number[][], extra = "", build?: string): string {
+  const meshes = objects.map((triangles, index) => {
+    const vertices: string[] = [];
+    const faces: string[] = [];
+    for (let i = 0; i < triangles.length; i += 9) {
+      for (let corner = 0; corner < 3; corner++) {
+        const [x, y, z] = triangles.slice(i + corner * 3, i + corner * 3 + 3);
+        vertices.push(`<vertex x="${x}" y="${y}" z="${z}"/>`);
+      }
+      const first = (i / 9) * 3;
+      faces.push(`<triangle v1="${first}" v2="${first + 1}" v3="${first + 2}"/>`);
+    }
+    return `<object id="${index + 1}" type="model"><mesh><vertices>${vertices.join("")}</vertices><triangles>${faces.join("")}</triangles></mesh></object>`;
+  });
+  const items = build ?? objects.map((_, index) => `<item objectid="${index + 1}"/>`).join("");
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+<resources>${meshes.join("")}${extra}</resources>
+<build>${items}</build>
+</model>`;
+}
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { faceCount, meshVolume } from "./mesh";
+import { cube, threemfModel, zipArchive } from "./test-fixtures";
+import { parse3mf } from "./threemf";
+
+test("components that multiply into a huge assembly are rejected", () => {
+  // Each assembly places the next one 8 times: 8^12 cubes from a few KB
+  const assemblies = Array.from({ length: 12 }, (_, level) => {
+    const next = level === 11 ? 1 : level + 3;
+    const components = Array.from({ length: 8 }, () => `<component objectid="${next}"/>`).join("");
+    return `<object id="${level + 2}" type="model"><components>${components}</components></object>`;
+  }).join("");
+  const archive = zipArchive({ "3D/3dmodel.model": threemfModel([cube(0, 10)], assemblies, `<item objectid="2"/>`) });
+
+  assert.throws(() => parse3mf(archive), /more than 10000 object instances/);
+});
+
+test("an assembly within the limits is placed in full", () => {
+  const components = Array.from({ length: 3 }, (_, i) => `<component objectid="1" transform="1 0 0 0 1 0 0 0 1 ${i * 20} 0 0"/>`).join("");
+  const assembly = `<object id="2" type="model"><components>${components}</components></object>`;
+  const mesh = parse3mf(zipArchive({ "3D/3dmodel.model": threemfModel([cube(0, 10)], assembly, `<item objectid="2"/>`) }));
+
+  assert.equal(faceCount(mesh), 36);
+  assert.equal(meshVolume(mesh), 3000);
+});
+
+test("models in other units are read in millimetres", () => {
+  const model = threemfModel([cube(0, 2)]).replace(`unit="millimeter"`, `unit="centimeter"`);
+  const mesh = parse3mf(zipArchive({ "3D/3dmodel.model": model }));
+
+  assert.equal(faceCount(mesh), 12);
+  assert.equal(meshVolume(mesh), 8000);
+});
+
+test("malformed packages are rejected", () => {
+  const model = threemfModel([cube(0, 10)]);
+  const parse = (entries: Record<string, string>) => () => parse3mf(zipArchive(entries));
+
+  assert.throws(() => parse3mf(Buffer.from(model)), /end of central directory not found/);
+  assert.throws(parse({ "3D/other.model": model }), /no 3D model part found/);
+  assert.throws(parse({ "3D/3dmodel.model": model.replace(`unit="millimeter"`, `unit="furlong"`) }), /unknown unit furlong/);
+  assert.throws(parse({ "3D/3dmodel.model": model.replace(`x="10"`, `x="ten"`) }), /malformed number/);
+  assert.throws(parse({ "3D/3dmodel.model": model.replace(`v3="2"`, `v3="36"`) }), /triangle references a missing vertex/);
+  assert.throws(parse({ "3D/3dmodel.model": threemfModel([cube(0, 10)], "", `<item objectid="7"/>`) }), /missing object 7/);
+});
@@ -0,0 +1,214 @@
+import {
+  IDENTITY,
+  mergeMeshes,
+  multiplyMatrices,
+  transformMesh,
+  type Matrix3x4,
+  type Mesh,
+} from "./mesh";
+import { scanXml } from "./xml";
+import { ZipArchive } from "./zip";
+
+const DEFAULT_MODEL_PATH = "3D/3dmodel.model";
+const MODEL_RELATIONSHIP = "http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel";
+const MAX_COMPONENT_DEPTH = 16;
+// Components can reference the same object many times over, so a tiny file
+// can describe a huge assembly. These bound what a file may expand to: well
+// past a plate of real parts (a 50MB STL holds about a million triangles).
+const MAX_PLACED_OBJECTS = 10_000;
+const MAX_PLACED_TRIANGLES = 5_000_000;
+
+// Millimetres per unit for the <model unit="..."> attribute
+const UNIT_SCALE: Record<string, number> = {
+  micron: 0.001,
+  millimeter: 1,
+  centimeter: 10,
+  inch: 25.4,
+  foot: 304.8,
+  meter: 1000,
+};
+
+interface ComponentRef {
+  objectId: string;
+  path?: string;
+  transform: Matrix3x4;
+}
+
+interface ModelObject {
+  type: string;
+  mesh?: Mesh;
+  components: ComponentRef[];
+}
+
+interface ModelDocument {
+  unitScale: number;
+  objects: Map<string, ModelObject>;
+  build: ComponentRef[];
+}
+
+// 3MF is an OPC zip package. The root model part lists mesh objects and
+// component assemblies under <resources>, and <build> places instances of
+// them on the plate. Slicers such as Bambu Studio keep each object in its own
+// part and reference it through the production extension's p:path attribute.
+export function parse3mf(buffer: Buffer): Mesh {
+  const archive = new ZipArchive(buffer);
+  const documents = new Map<string, ModelDocument>();
+  const load = (path: string) => {
+    const key = path.replace(/^\/+/, "");
+    let document = documents.get(key);
+    if (!document) {
+      document = parseModelDocument(archive.read(key).toString("utf8"));
+      documents.set(key, document);
+    }
+    return document;
+  };
+
+  const rootPath = findRootModelPath(archive);
+  const root = load(rootPath);
+  const parts: Mesh[] = [];
+  let placedObjects = 0;
+  let placedTriangles = 0;
+
+  const place = (path: string, objectId: string, transform: Matrix3x4, depth: number) => {
+    if (depth > MAX_COMPONENT_DEPTH) {
+      throw new Error("Invalid 3MF file: components are nested too deeply");
+    }
+    const object = load(path).objects.get(objectId);
+    if (!object) {
+      throw new Error(`Invalid 3MF file: build references missing object ${objectId}`);
+    }
+    if (object.type === "other") {
+      return;
+    }
+    if (++placedObjects > MAX_PLACED_OBJECTS) {
+      throw new Error(`Invalid 3MF file: more than ${MAX_PLACED_OBJECTS} object instances`);
+    }
+    if (object.mesh) {
+      placedTriangles += object.mesh.faces.length / 3;
+      if (placedTriangles > MAX_PLACED_TRIANGLES) {
+        throw new Error(`Invalid 3MF file: the assembly expands to more than ${MAX_PLACED_TRIANGLES} triangles`);
+      }
+      parts.push(transformMesh(object.mesh, transform));
+    }
+    for (const component of object.components) {
+      place(component.path ?? path, component.objectId, multiplyMatrices(transform, component.transform), depth + 1);
+    }
+  };
+
+  for (const item of root.build) {
+    place(item.path ?? rootPath, item.objectId, item.transform, 0);
+  }
+
+  const scale = root.unitScale;
+  const merged = mergeMeshes(parts);
+  return scale === 1 ? merged : transformMesh(merged, [scale, 0, 0, 0, 0, scale, 0, 0, 0, 0, scale, 0]);
+}
+
+function findRootModelPath(archive: ZipArchive): string {
+  let target: string | undefined;
+  if (archive.has("_rels/.rels")) {
+    scanXml(archive.read("_rels/.rels").toString("utf8"), (tag) => {
+      if (!target && tag.name === "Relationship" && tag.attributes.Type === MODEL_RELATIONSHIP) {
+        target = tag.attributes.Target?.replace(/^\/+/, "");
+      }
+    });
+  }
+  if (target) {
+    return target;
+  }
+  if (archive.has(DEFAULT_MODEL_PATH)) {
+    return DEFAULT_MODEL_PATH;
+  }
+  throw new Error("Invalid 3MF file: no 3D model part found");
+}
+
+function parseModelDocument(xml: string): ModelDocument {
+  const document: ModelDocument = { unitScale: 1, objects: new Map(), build: [] };
+  let object: ModelObject | null = null;
+  let objectId = "";
+  let vertices: number[] = [];
+  let faces: number[] = [];
+
+  scanXml(xml, (tag) => {
+    const a = tag.attributes;
+    if (tag.closing) {
+      if (tag.name === "mesh" && object) {
+        object.mesh = { vertices: Float64Array.from(vertices), faces: Uint32Array.from(faces) };
+      } else if (tag.name === "object" && object) {
+        document.objects.set(objectId, object);
+        object = null;
+      }
+      return;
+    }
+
+    switch (tag.name) {
+      case "model":
+        if (a.unit) {
+          const scale = UNIT_SCALE[a.unit];
+          if (scale === undefined) {
+            throw new Error(`Invalid 3MF file: unknown unit ${a.unit}`);
+          }
+          document.unitScale = scale;
+        }
+        break;
+      case "object":
+        objectId = a.id;
+        object = { type: a.type ?? "model", components: [] };
+        if (tag.selfClosing) {
+          document.objects.set(objectId, object);
+          object = null;
+        }
+        break;
+      case "mesh":
+        vertices = [];
+        faces = [];
+        break;
+      case "vertex":
+        vertices.push(parseNumber(a.x), parseNumber(a.y), parseNumber(a.z));
+        break;
+      case "triangle": {
+        const count = vertices.length / 3;
+        const corners = [a.v1, a.v2, a.v3].map((value) => parseInt(value, 10));
+        if (corners.some((index) => !(index >= 0 && index < count))) {
+          throw new Error("Invalid 3MF file: triangle references a missing vertex");
+        }
+        faces.push(...corners);
+        break;
+      }
+      case "component":
+        object?.components.push(parseReference(a));
+        break;
+      case "item":
+        document.build.push(parseReference(a));
+        break;
+    }
+  });
+
+  return document;
+}
+
+function parseReference(attributes: Record<string, string>): ComponentRef {
+  return {
+    objectId: attributes.objectid,
+    path: attributes["p:path"],
+    transform: attributes.transform ? parseTransform(attributes.transform) : IDENTITY,
+  };
+}
+
+// 3MF writes the matrix column-major as m00 m01 m02 m10 m11 m12 m20 m21 m22
+// m30 m31 m32, applied to row vectors
+function parseTransform(value: string): Matrix3x4 {
+  const m = value.trim().split(/\s+/).map(parseNumber);
+  if (m.length !== 12) {
+    throw new Error("Invalid 3MF file: malformed transform");
+  }
+  return [m[0], m[3], m[6], m[9], m[1], m[4], m[7], m[10], m[2], m[5], m[8], m[11]];
+}
+
+function parseNumber(value: string | undefined): number {
+  const number = value === undefined ? NaN : Number(value);
+  if (!Number.isFinite(number)) {
+    throw new Error("Invalid 3MF file: malformed number");
+  }
+  return number;
+}
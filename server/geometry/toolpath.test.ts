@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { LayerContours, Polygon } from "./slicer";
+import { generateToolpaths, type ToolpathSettings } from "./toolpath";
+
+const SETTINGS: ToolpathSettings = {
+  lineWidth: 0.4,
+  perimeters: 2,
+  topBottomLayers: 3,
+  infillDensity: 0.2,
+  infillPattern: "lines",
+  skirtLoops: 0,
+  skirtDistance: 3,
+};
+
+function square(centre: number, size: number): Polygon {
+  const [a, b] = [centre - size / 2, centre + size / 2];
+  return [[a, a], [b, a], [b, b], [a, b]];
+}
+
+test("a ledge part-way up the part gets solid infill where it is exposed", () => {
+  // A 10 mm tower on a 30 mm base, each 10 layers tall
+  const layers: LayerContours[] = Array.from({ length: 20 }, (_, i) => ({
+    z: i * 0.2 + 0.1,
+    top: (i + 1) * 0.2,
+    height: 0.2,
+    loops: [square(50, i < 10 ? 30 : 10)],
+  }));
+  const paths = generateToolpaths(layers, SETTINGS);
+  const roles = (index: number, role: string) => paths[index].paths.filter((path) => path.role === role);
+
+  // Inside the base: sparse only
+  assert.equal(roles(5, "solid-infill").length, 0);
+  assert.ok(roles(5, "infill").length > 0);
+
+  // The base's top layer is solid around the tower and sparse under it
+  const ledge = roles(9, "solid-infill");
+  assert.ok(ledge.length > 0);
+  for (const { points: [[x1, y1], [x2, y2]] } of ledge) {
+    const [x, y] = [(x1 + x2) / 2, (y1 + y2) / 2];
+    assert.ok(Math.max(Math.abs(x - 50), Math.abs(y - 50)) >= 5 - 1e-6, `solid line through the tower at ${x}, ${y}`);
+  }
+  assert.ok(roles(9, "infill").length > 0);
+});
@@ -0,0 +1,239 @@
+import { offsetRegion } from "./offset";
+import type { LayerContours, Polygon } from "./slicer";
+
+export type PathRole = "skirt" | "perimeter" | "solid-infill" | "infill";
+export type InfillPattern = "lines" | "grid" | "rectilinear";
+
+export interface ToolPath {
+  role: PathRole;
+  points: [number, number][];
+  closed: boolean;
+}
+
+export interface LayerPaths {
+  top: number; // nozzle height
+  height: number; // layer thickness
+  paths: ToolPath[];
+}
+
+export interface ToolpathSettings {
+  lineWidth: number;
+  perimeters: number;
+  topBottomLayers: number;
+  infillDensity: number; // 0-1
+  infillPattern: InfillPattern;
+  skirtLoops: number;
+  skirtDistance: number;
+}
+
+const MIN_POINT_SPACING = 0.05; // mm
+// Infill overlaps the innermost perimeter slightly so they bond
+const INFILL_OVERLAP = 0.15; // fraction of the line width
+
+interface Coverage {
+  covers: Polygon[][]; // the outlines of other layers
+  keep: "covered" | "exposed";
+}
+
+// Turns sliced outlines into printable paths: concentric perimeters inset
+// from every outline, scanline infill clipped to what remains, and a skirt
+// around the first layer.
+//
+// Infill is solid wherever the part has a surface within `topBottomLayers`
+// layers: in the first and last layers, and on any area not covered by
+// material in every one of the `topBottomLayers` layers above and below it,
+// such as a ledge part-way up. The rest gets sparse infill.
+export function generateToolpaths(layers: LayerContours[], settings: ToolpathSettings): LayerPaths[] {
+  const w = settings.lineWidth;
+  const n = settings.topBottomLayers;
+  const outlinesByLayer = layers.map((layer) => layer.loops.map((loop) => simplify(loop)).filter((loop) => loop.length >= 3));
+  return layers.map((layer, index) => {
+    const outlines = outlinesByLayer[index];
+    const paths: ToolPath[] = [];
+
+    if (index === 0 && settings.skirtLoops > 0) {
+      const hull = convexHull(outlines.flat());
+      if (hull.length >= 3) {
+        for (let i = settings.skirtLoops - 1; i >= 0; i--) {
+          const [loop] = offsetRegion([hull], -(settings.skirtDistance + w / 2 + i * w));
+          if (loop) paths.push({ role: "skirt", points: loop, closed: true });
+        }
+      }
+    }
+
+    // Inner perimeters first so the outer wall is laid against support
+    let innermost = outlines;
+    const walls: ToolPath[][] = [];
+    for (let k = 0; k < settings.perimeters; k++) {
+      const inset = offsetRegion(outlines, w / 2 + k * w);
+      if (inset.length === 0) break;
+      walls.push(inset.map((points) => ({ role: "perimeter" as const, points, closed: true })));
+      innermost = inset;
+    }
+    paths.push(...walls.reverse().flat());
+
+    const fillRegion = walls.length > 0
+      ? offsetRegion(innermost, w / 2 - INFILL_OVERLAP * w)
+      : innermost;
+    if (fillRegion.length > 0) {
+      // Near the bottom or top of the part there are fewer than n layers to
+      // cover it, so the whole layer is solid
+      const covers = index < n || index >= layers.length - n
+        ? null
+        : outlinesByLayer.slice(index - n, index + n + 1).filter((_, k) => k !== n);
+      const angle = index % 2 === 0 ? 45 : -45;
+      const solid = scanlineFill(fillRegion, angle, w, covers && { covers, keep: "exposed" });
+      paths.push(...solid.map((points) => ({ role: "solid-infill" as const, points, closed: false })));
+      if (covers && settings.infillDensity > 0) {
+        for (const [angle, spacing] of sparsePasses(settings.infillPattern, index, w, settings.infillDensity)) {
+          const sparse = scanlineFill(fillRegion, angle, spacing, { covers, keep: "covered" });
+          paths.push(...sparse.map((points) => ({ role: "infill" as const, points, closed: false })));
+        }
+      }
+    }
+
+    return { top: layer.top, height: layer.height, paths };
+  });
+}
+
+// Angle and line spacing of each sparse infill pass for a layer
+function sparsePasses(pattern: InfillPattern, index: number, w: number, density: number): [number, number][] {
+  switch (pattern) {
+    case "grid":
+      // Two crossing passes share the density
+      return [[45, (2 * w) / density], [-45, (2 * w) / density]];
+    case "rectilinear":
+      return [[index % 2 === 0 ? 0 : 90, w / density]];
+    case "lines":
+      return [[index % 2 === 0 ? 45 : -45, w / density]];
+  }
+}
+
+// Parallel lines at `angle` degrees, `spacing` apart, clipped to the region
+// with the even-odd rule (outer outlines and holes together) and, given
+// covers, to the part of it every cover overlaps or to the rest. Alternate
+// lines run in opposite directions to keep travel short.
+function scanlineFill(region: Polygon[], angle: number, spacing: number, coverage?: Coverage | null): [number, number][][] {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  // Rotate the region so the fill lines are horizontal
+  const rotate = (polygons: Polygon[]) =>
+    polygons.map((polygon) => polygon.map(([x, y]) => [x * cos + y * sin, -x * sin + y * cos] as [number, number]));
+  const rotated = rotate(region);
+  const covers = coverage ? coverage.covers.map(rotate) : [];
+
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (const polygon of rotated) {
+    for (const [, y] of polygon) {
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+
+  const lines: [number, number][][] = [];
+  // Lines sit on a global grid so sparse infill stacks up between layers
+  let row = 0;
+  for (let y = Math.ceil(minY / spacing) * spacing; y <= maxY; y += spacing, row++) {
+    const inside = spans(rotated, y);
+    let covered = inside;
+    for (const cover of covers) {
+      if (covered.length === 0) break;
+      covered = intersectSpans(covered, spans(cover, y));
+    }
+    const intervals = (!coverage ? inside : coverage.keep === "covered" ? covered : subtractSpans(inside, covered))
+      .filter(([a, b]) => b - a > MIN_POINT_SPACING);
+    if (row % 2 === 1) intervals.reverse();
+    for (const [a, b] of intervals) {
+      const [start, end] = row % 2 === 1 ? [b, a] : [a, b];
+      lines.push([
+        [start * cos - y * sin, start * sin + y * cos],
+        [end * cos - y * sin, end * sin + y * cos],
+      ]);
+    }
+  }
+  return lines;
+}
+
+// Where the horizontal line at `y` is inside the polygons (even-odd), as
+// sorted, disjoint [start, end] spans
+function spans(polygons: Polygon[], y: number): [number, number][] {
+  const crossings: number[] = [];
+  for (const polygon of polygons) {
+    for (let i = 0; i < polygon.length; i++) {
+      const [x1, y1] = polygon[i];
+      const [x2, y2] = polygon[(i + 1) % polygon.length];
+      if ((y1 <= y) === (y2 <= y)) continue;
+      crossings.push(x1 + ((y - y1) / (y2 - y1)) * (x2 - x1));
+    }
+  }
+  crossings.sort((a, b) => a - b);
+  const result: [number, number][] = [];
+  for (let i = 0; i + 1 < crossings.length; i += 2) result.push([crossings[i], crossings[i + 1]]);
+  return result;
+}
+
+function intersectSpans(a: [number, number][], b: [number, number][]): [number, number][] {
+  const result: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i][0], b[j][0]);
+    const end = Math.min(a[i][1], b[j][1]);
+    if (end > start) result.push([start, end]);
+    if (a[i][1] < b[j][1]) i++;
+    else j++;
+  }
+  return result;
+}
+
+function subtractSpans(a: [number, number][], b: [number, number][]): [number, number][] {
+  const result: [number, number][] = [];
+  let j = 0;
+  for (const [from, to] of a) {
+    let start = from;
+    while (j < b.length && b[j][1] <= start) j++;
+    for (let k = j; k < b.length && b[k][0] < to; k++) {
+      if (b[k][0] > start) result.push([start, b[k][0]]);
+      start = Math.max(start, b[k][1]);
+    }
+    if (start < to) result.push([start, to]);
+  }
+  return result;
+}
+
+function simplify(loop: Polygon): Polygon {
+  const result: Polygon = [];
+  for (const point of loop) {
+    const last = result[result.length - 1];
+    if (!last || Math.hypot(point[0] - last[0], point[1] - last[1]) >= MIN_POINT_SPACING) {
+      result.push(point);
+    }
+  }
+  while (result.length > 3 && Math.hypot(result[0][0] - result[result.length - 1][0], result[0][1] - result[result.length - 1][1]) < MIN_POINT_SPACING) {
+    result.pop();
+  }
+  return result;
+}
+
+// Counter-clockwise convex hull (monotone chain)
+function convexHull(points: [number, number][]): Polygon {
+  const sorted = points.slice().sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+  if (sorted.length < 3) return sorted;
+  const turn = (o: [number, number], p: [number, number], q: [number, number]) =>
+    (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0]);
+  const lower: Polygon = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && turn(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  }
+  const upper: Polygon = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    while (upper.length >= 2 && turn(upper[upper.length - 2], upper[upper.length - 1], sorted[i]) <= 0) upper.pop();
+    upper.push(sorted[i]);
+  }
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
@@ -0,0 +1,41 @@
+export interface XmlTag {
+  name: string; // local name, namespace prefix stripped
+  attributes: Record<string, string>;
+  closing: boolean;
+  selfClosing: boolean;
+}
+
+const TAG_PATTERN = /<(\/?)([A-Za-z_][\w.:-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// Streaming tag scanner for the machine-written XML found in 3D packages.
+// Text content, comments and processing instructions are ignored; attribute
+// names keep their namespace prefix (e.g. "p:path").
+export function scanXml(text: string, onTag: (tag: XmlTag) => void) {
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_PATTERN.exec(text)) !== null) {
+    const attributes: Record<string, string> = {};
+    ATTRIBUTE_PATTERN.lastIndex = 0;
+    let attribute: RegExpExecArray | null;
+    while ((attribute = ATTRIBUTE_PATTERN.exec(match[3])) !== null) {
+      attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+    }
+    const qualified = match[2];
+    onTag({
+      name: qualified.slice(qualified.indexOf(":") + 1),
+      attributes,
+      closing: match[1] === "/",
+      selfClosing: match[4] === "/",
+    });
+  }
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
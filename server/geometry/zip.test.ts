@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { zipArchive } from "./test-fixtures";
+import { ZipArchive } from "./zip";
+
+// Offset of the first central directory entry, from the end record
+function centralDirectory(archive: Buffer): number {
+  return archive.readUInt32LE(archive.length - 22 + 16);
+}
+
+test("entries are found case-insensitively and unpacked", () => {
+  const archive = new ZipArchive(zipArchive({ "3D/3dmodel.model": "<model/>", "_rels/.rels": "<Relationships/>" }));
+
+  assert.deepEqual(archive.names(), ["3d/3dmodel.model", "_rels/.rels"]);
+  assert.equal(archive.read("/3D/3DModel.model").toString(), "<model/>");
+  assert.throws(() => archive.read("Metadata/thumbnail.png"), /missing entry/);
+});
+
+test("entries that inflate far beyond their compressed size are refused", () => {
+  // Zeros compress about 1000x; up to 1 MB is allowed whatever the ratio
+  const limit = new ZipArchive(zipArchive({ "fill.bin": Buffer.alloc(1024 * 1024) }));
+  assert.equal(limit.read("fill.bin").length, 1024 * 1024);
+
+  const bomb = new ZipArchive(zipArchive({ "fill.bin": Buffer.alloc(1024 * 1024 + 1) }));
+  assert.throws(() => bomb.read("fill.bin"), /too large to unpack/);
+});
+
+test("entries that inflate past their declared size are cut off", () => {
+  const file = zipArchive({ "model.xml": "<model>".repeat(100) });
+  // Claim half the real size in the central directory
+  file.writeUInt32LE(350, centralDirectory(file) + 24);
+
+  assert.throws(() => new ZipArchive(file).read("model.xml"), /unpacks to more than its declared size/);
+});
+
+test("corrupt archives are rejected", () => {
+  const file = zipArchive({ "model.xml": "<model/>" });
+  const directory = centralDirectory(file);
+
+  const truncated = Buffer.from(file);
+  truncated.writeUInt32LE(0, directory);
+  assert.throws(() => new ZipArchive(truncated), /corrupt central directory/);
+
+  const zip64 = Buffer.from(file);
+  zip64.writeUInt32LE(0xffffffff, directory + 20);
+  assert.throws(() => new ZipArchive(zip64), /ZIP64/);
+
+  const bzip2 = Buffer.from(file);
+  bzip2.writeUInt16LE(12, directory + 10);
+  assert.throws(() => new ZipArchive(bzip2).read("model.xml"), /unsupported compression method 12/);
+});
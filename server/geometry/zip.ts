@@ -0,0 +1,110 @@
+import { inflateRawSync } from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Largest entry we will unpack. Well beyond the model XML a 50MB upload can
+// hold, but it stops a small archive from inflating into gigabytes.
+const MAX_ENTRY_SIZE = 256 * 1024 * 1024;
+// Model XML deflates by 5-20x; ratios near deflate's 1000x limit are padding
+const MAX_COMPRESSION_RATIO = 100;
+
+interface ZipEntry {
+  compression: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Minimal reader for the ZIP containers used by OPC packages such as 3MF.
+// Supports stored and deflated entries; ZIP64 archives are rejected since
+// they would exceed the upload size limit anyway.
+export class ZipArchive {
+  private entries = new Map<string, ZipEntry>();
+
+  constructor(private buffer: Buffer) {
+    const eocd = this.findEndOfCentralDirectory();
+    const entryCount = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new Error("Invalid archive: corrupt central directory");
+      }
+      const compression = buffer.readUInt16LE(offset + 10);
+      const compressedSize = buffer.readUInt32LE(offset + 20);
+      const uncompressedSize = buffer.readUInt32LE(offset + 24);
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+      if (compressedSize === 0xffffffff || uncompressedSize === 0xffffffff || localHeaderOffset === 0xffffffff) {
+        throw new Error("Invalid archive: ZIP64 archives are not supported");
+      }
+      const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+      this.entries.set(normalizePath(name), { compression, compressedSize, uncompressedSize, localHeaderOffset });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(normalizePath(name));
+  }
+
+  names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  read(name: string): Buffer {
+    const entry = this.entries.get(normalizePath(name));
+    if (!entry) {
+      throw new Error(`Invalid archive: missing entry ${name}`);
+    }
+    if (
+      entry.uncompressedSize > MAX_ENTRY_SIZE ||
+      (entry.compression !== 0 && entry.uncompressedSize > Math.max(entry.compressedSize * MAX_COMPRESSION_RATIO, 1024 * 1024))
+    ) {
+      throw new Error(`Invalid archive: ${name} is too large to unpack`);
+    }
+
+    const header = entry.localHeaderOffset;
+    if (this.buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid archive: corrupt entry ${name}`);
+    }
+    const start = header + 30 + this.buffer.readUInt16LE(header + 26) + this.buffer.readUInt16LE(header + 28);
+    const data = this.buffer.subarray(start, start + entry.compressedSize);
+
+    switch (entry.compression) {
+      case 0:
+        return data;
+      case 8:
+        // Never trust the declared size further than the output we allow
+        try {
+          return inflateRawSync(data, { maxOutputLength: Math.max(1, entry.uncompressedSize) });
+        } catch (error) {
+          if (error instanceof RangeError) {
+            throw new Error(`Invalid archive: ${name} unpacks to more than its declared size`);
+          }
+          throw error;
+        }
+      default:
+        throw new Error(`Invalid archive: unsupported compression method ${entry.compression}`);
+    }
+  }
+
+  private findEndOfCentralDirectory(): number {
+    // The record sits at the very end, followed by an optional comment of up to 64KB
+    const lowest = Math.max(0, this.buffer.length - 22 - 0xffff);
+    for (let offset = this.buffer.length - 22; offset >= lowest; offset--) {
+      if (this.buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        return offset;
+      }
+    }
+    throw new Error("Invalid archive: end of central directory not found");
+  }
+}
+
+// Package paths are case-insensitive and may be written with a leading slash
+function normalizePath(name: string): string {
+  return name.replace(/\\/g, "/").replace(/^\/+/, "").toLowerCase();
+}
@@ -0,0 +1,86 @@
+import { PRINTER } from "@shared/printer";
+import type { Material } from "@shared/schema";
+
+// Materials MemStorage starts with; a database is seeded with the same rows
+export const DEFAULT_MATERIALS: Material[] = [
+  {
+    id: "pla",
+    name: "PLA",
+    description: "Stiff, easy to print and detailed. Our default for most parts.",
+    density: "1.240",
+    pricePerGram: "0.2500",
+    colors: [
+      { name: "Black", hex: "#1a1a1a" },
+      { name: "White", hex: "#f2f2f2" },
+      { name: "Grey", hex: "#8a8d91" },
+      { name: "Red", hex: "#c62828" },
+      { name: "Blue", hex: "#1e56b0" },
+      { name: "Cyan", hex: "#00bcd4" },
+    ],
+    inStock: true,
+    compatiblePrinters: [PRINTER.id],
+  },
+  {
+    id: "petg",
+    name: "PETG",
+    description: "Tougher and more heat resistant than PLA, good for functional parts.",
+    density: "1.270",
+    pricePerGram: "0.2800",
+    colors: [
+      { name: "Black", hex: "#1a1a1a" },
+      { name: "Clear", hex: "#d9eef2" },
+      { name: "Orange", hex: "#ef6c00" },
+    ],
+    inStock: true,
+    compatiblePrinters: [PRINTER.id],
+  },
+  {
+    id: "tpu",
+    name: "TPU 95A",
+    description: "Flexible and rubbery, for grips, seals and bumpers.",
+    density: "1.210",
+    pricePerGram: "0.4000",
+    colors: [
+      { name: "Black", hex: "#1a1a1a" },
+      { name: "Translucent", hex: "#e6e6e6" },
+    ],
+    inStock: true,
+    compatiblePrinters: [PRINTER.id],
+  },
+  {
+    id: "abs",
+    name: "ABS",
+    description: "Impact and heat resistant; may warp on large, flat parts.",
+    density: "1.040",
+    pricePerGram: "0.3000",
+    colors: [
+      { name: "Black", hex: "#1a1a1a" },
+      { name: "White", hex: "#f2f2f2" },
+    ],
+    inStock: true,
+    compatiblePrinters: [PRINTER.id],
+  },
+  {
+    id: "asa",
+    name: "ASA",
+    description: "UV resistant ABS alternative for outdoor parts.",
+    density: "1.070",
+    pricePerGram: "0.3200",
+    colors: [
+      { name: "Black", hex: "#1a1a1a" },
+      { name: "White", hex: "#f2f2f2" },
+    ],
+    inStock: false,
+    compatiblePrinters: [PRINTER.id],
+  },
+  {
+    id: "pa-cf",
+    name: "Nylon CF",
+    description: "Carbon fibre nylon for stiff engineering parts. Needs a hardened nozzle and enclosure.",
+    density: "1.150",
+    pricePerGram: "0.6000",
+    colors: [{ name: "Black", hex: "#1a1a1a" }],
+    inStock: true,
+    compatiblePrinters: [],
+  },
+];
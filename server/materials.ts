@@ -0,0 +1,23 @@
+import type { MaterialProperties } from "@shared/analysis";
+import { PRINTER } from "@shared/printer";
+import type { Material } from "@shared/schema";
+import { storage } from "./storage";
+
+// A material customers can order right now on our printer
+export async function getOrderableMaterial(id: string): Promise<Material> {
+  const material = await storage.getMaterial(id);
+  if (!material) {
+    throw new Error(`Unknown material: ${id}`);
+  }
+  if (!material.compatiblePrinters.includes(PRINTER.id)) {
+    throw new Error(`${material.name} can't be printed on our ${PRINTER.name}`);
+  }
+  if (!material.inStock) {
+    throw new Error(`${material.name} is out of stock. Please choose another material.`);
+  }
+  return material;
+}
+
+export function materialProperties(material: Material): MaterialProperties {
+  return { density: parseFloat(material.density) };
+}
@@ -0,0 +1,43 @@
+import { batchPrintMinutes, formatPrintTime } from "@shared/analysis";
+import type { InsertOrderItem, Material, Quote } from "@shared/schema";
+import type { StoredUpload } from "./uploads";
+
+// An order line for a verified quote. The item is charged exactly what was
+// quoted, even if prices changed since.
+export function orderItemFromQuote(
+  quote: Quote,
+  modelFile: StoredUpload,
+  material: Material,
+  color: string,
+  position: number,
+): InsertOrderItem {
+  const { analysis, options } = quote;
+  const lineAmount = (code: string) => quote.lineItems.find((item) => item.code === code)?.amount ?? 0;
+  const item: InsertOrderItem = {
+    position,
+    quoteId: quote.id,
+    material: material.id,
+    color,
+    quantity: options.quantity,
+    modelFileName: modelFile.originalname,
+    modelFilePath: modelFile.path,
+    preSliced: analysis.kind === "gcode",
+    modelWeight: analysis.weight.toString(),
+    printTime: formatPrintTime(batchPrintMinutes(analysis, options.quantity)),
+    supportRemoval: quote.lineItems.some((line) => line.code === "support_removal"),
+    baseCost: lineAmount("material").toFixed(2),
+    supportCost: lineAmount("support_removal").toFixed(2),
+    totalCost: quote.totalCost,
+  };
+  if (analysis.kind === "mesh") {
+    item.modelUnits = analysis.scaling.units;
+    item.modelScale = analysis.scaling.scale.toFixed(2);
+    item.thumbnailFileName = analysis.thumbnailFile;
+    item.modelRepaired = analysis.repair.repaired;
+    item.repairSummary = analysis.repair.changes.join("; ") || undefined;
+    item.quality = analysis.print.quality;
+    item.infill = analysis.print.infill;
+    item.walls = analysis.print.walls;
+  }
+  return item;
+}
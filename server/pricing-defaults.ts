@@ -0,0 +1,24 @@
+import type { PricingRules } from "@shared/pricing";
+
+// Price book version 1, which MemStorage starts with. Orders were only charged
+// for material and support removal before the rules were configurable, so the
+// other charges start at zero.
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  machineHourRate: 0,
+  plateSetupMinutes: 10,
+  setupFee: 0,
+  minimumCharge: 0,
+  supportRemoval: { baseFee: 2, perCm2: 0.1, perGram: 0.2 },
+  postProcessing: [
+    { code: "sanding", label: "Sanding", perPart: 3, perCm2: 0.05 },
+    { code: "primer", label: "Sanding and primer", perPart: 5, perCm2: 0.08 },
+  ],
+  rush: [
+    { code: "express", label: "Express (2 days)", surchargePercent: 50, leadTimeDays: 2 },
+  ],
+  quantityBreaks: [
+    { minQuantity: 5, discountPercent: 5 },
+    { minQuantity: 10, discountPercent: 10 },
+    { minQuantity: 25, discountPercent: 15 },
+  ],
+};
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { GcodeAnalysis } from "@shared/analysis";
+import type { PricingRules } from "@shared/pricing";
+import { DEFAULT_PRICING_RULES } from "./pricing-defaults";
+import { priceOrder } from "./pricing";
+import { meshAnalysis } from "./test-fixtures";
+
+const RULES: PricingRules = { ...DEFAULT_PRICING_RULES, machineHourRate: 6, setupFee: 1.5 };
+const PRICE_PER_GRAM = 0.05;
+const OPTIONS = { supportRemoval: false, postProcessing: [], quantity: 1 };
+
+test("one copy is charged material, machine time, finishing and setup", () => {
+  const price = priceOrder(meshAnalysis(), { ...OPTIONS, supportRemoval: true, postProcessing: ["sanding"] }, RULES, PRICE_PER_GRAM);
+
+  assert.deepEqual(price.lineItems, [
+    { code: "material", label: "Material (20 g part + 5 g supports)", amount: 1.25 },
+    // Two hours plus ten minutes of plate setup at $6/h
+    { code: "machine_time", label: "Machine time (2h 10m)", amount: 13 },
+    { code: "support_removal", label: "Support removal", amount: 3 },
+    { code: "post_processing_sanding", label: "Sanding", amount: 5.5 },
+    { code: "setup", label: "Setup", amount: 1.5 },
+  ]);
+  assert.equal(price.totalCost, 24.25);
+});
+
+test("copies share plates and get the largest quantity break they reach", () => {
+  const codes = (quantity: number) => priceOrder(meshAnalysis(), { ...OPTIONS, quantity }, RULES, PRICE_PER_GRAM).lineItems;
+
+  // Ten copies on three plates: 110 minutes each, plus 10 shared and 10
+  // setup minutes per plate
+  const ten = codes(10);
+  assert.deepEqual(ten.find((item) => item.code === "machine_time"), {
+    code: "machine_time", label: "Machine time (19h 20m over 3 plates)", amount: 116,
+  });
+  assert.deepEqual(ten.find((item) => item.code === "quantity_discount"), {
+    code: "quantity_discount", label: "10% off 10+ copies", amount: -12.85,
+  });
+
+  assert.equal(codes(4).find((item) => item.code === "quantity_discount"), undefined);
+  assert.equal(codes(5).find((item) => item.code === "quantity_discount")?.label, "5% off 5+ copies");
+  assert.equal(codes(9).find((item) => item.code === "quantity_discount")?.label, "5% off 5+ copies");
+});
+
+test("rush is a share of the subtotal and small orders are topped up to the minimum", () => {
+  const rules = { ...RULES, machineHourRate: 0, minimumCharge: 20 };
+  const price = priceOrder(meshAnalysis(), { ...OPTIONS, rush: "express" }, rules, PRICE_PER_GRAM);
+
+  assert.deepEqual(price.lineItems.map((item) => [item.code, item.amount]), [
+    ["material", 1.25],
+    ["setup", 1.5],
+    ["rush_express", 1.38],
+    ["minimum_charge", 15.87],
+  ]);
+  assert.equal(price.totalCost, 20);
+});
+
+test("support removal on customer-sliced G-code is charged by support weight", () => {
+  const analysis: GcodeAnalysis = {
+    ...meshAnalysis(),
+    kind: "gcode",
+    filamentLength: 6000,
+    supportVolume: 3.2,
+    supportWeight: 4,
+    slicerEstimate: {},
+  };
+  const price = priceOrder(analysis, { ...OPTIONS, supportRemoval: true }, { ...RULES, setupFee: 0 }, PRICE_PER_GRAM);
+
+  assert.deepEqual(price.lineItems.map((item) => [item.code, item.amount]), [
+    ["material", 1],
+    ["machine_time", 13],
+    ["support_removal", 2.8],
+  ]);
+});
+
+test("options missing from the price book are rejected", () => {
+  assert.throws(() => priceOrder(meshAnalysis(), { ...OPTIONS, postProcessing: ["gilding"] }, RULES, PRICE_PER_GRAM), /Unknown post-processing option: gilding/);
+  assert.throws(() => priceOrder(meshAnalysis(), { ...OPTIONS, rush: "overnight" }, RULES, PRICE_PER_GRAM), /Unknown turnaround option: overnight/);
+});
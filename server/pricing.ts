@@ -0,0 +1,97 @@
+import { batchPrintMinutes, formatPrintTime, platesNeeded, type ModelAnalysis } from "@shared/analysis";
+import type { OrderPrice, PricingRules, QuoteLineItem, QuoteOptions } from "@shared/pricing";
+
+type PricedOptions = Pick<QuoteOptions, "supportRemoval" | "postProcessing" | "rush" | "quantity">;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Prices copies of one file under a price book. Material and finishing are
+// charged per copy and machine time per build plate the copies are packed
+// onto; then the quantity discount, setup fee and rush surcharge apply to the
+// order, and the total is topped up to the minimum charge.
+export function priceOrder(
+  analysis: ModelAnalysis,
+  options: PricedOptions,
+  rules: PricingRules,
+  pricePerGram: number,
+): OrderPrice {
+  const { quantity } = options;
+  const supportWeight = analysis.kind === "mesh" ? analysis.supports.weight : analysis.supportWeight;
+  const perPart: QuoteLineItem[] = [{
+    code: "material",
+    label: analysis.kind === "mesh" && supportWeight > 0
+      ? `Material (${analysis.weight} g part + ${supportWeight} g supports)`
+      : `Material (${analysis.weight} g)`,
+    amount: round((analysis.kind === "mesh" ? analysis.weight + supportWeight : analysis.weight) * pricePerGram),
+  }];
+
+  if (options.supportRemoval) {
+    const { baseFee, perCm2, perGram } = rules.supportRemoval;
+    const labour = analysis.kind === "mesh"
+      ? analysis.supports.needed ? baseFee + analysis.supports.overhangArea * perCm2 : 0
+      : supportWeight > 0 ? baseFee + supportWeight * perGram : 0;
+    perPart.push({ code: "support_removal", label: "Support removal", amount: round(labour) });
+  }
+
+  options.postProcessing.forEach((code) => {
+    const service = rules.postProcessing.find((entry) => entry.code === code);
+    if (!service) throw new Error(`Unknown post-processing option: ${code}`);
+    const area = analysis.kind === "mesh" ? analysis.surfaceArea : 0;
+    perPart.push({ code: `post_processing_${code}`, label: service.label, amount: round(service.perPart + area * service.perCm2) });
+  });
+
+  const lineItems = perPart
+    .filter((item) => item.code === "material" || item.amount > 0)
+    .map((item) => quantity > 1 ? { ...item, label: `${item.label} × ${quantity}`, amount: round(item.amount * quantity) } : item);
+
+  const plates = platesNeeded(analysis.plate, quantity);
+  const machineMinutes = batchPrintMinutes(analysis, quantity) + plates * rules.plateSetupMinutes;
+  const machineTime = round((machineMinutes / 60) * rules.machineHourRate);
+  if (machineTime > 0) {
+    lineItems.splice(1, 0, {
+      code: "machine_time",
+      label: `Machine time (${formatPrintTime(machineMinutes)}${plates > 1 ? ` over ${plates} plates` : ""})`,
+      amount: machineTime,
+    });
+  }
+  const partsTotal = sum(lineItems);
+
+  // The largest break the quantity qualifies for
+  const quantityBreak = rules.quantityBreaks
+    .filter((entry) => quantity >= entry.minQuantity)
+    .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+  if (quantityBreak && quantityBreak.discountPercent > 0) {
+    lineItems.push({
+      code: "quantity_discount",
+      label: `${quantityBreak.discountPercent}% off ${quantityBreak.minQuantity}+ copies`,
+      amount: -round(partsTotal * quantityBreak.discountPercent / 100),
+    });
+  }
+
+  if (rules.setupFee > 0) {
+    lineItems.push({ code: "setup", label: "Setup", amount: rules.setupFee });
+  }
+
+  if (options.rush) {
+    const rush = rules.rush.find((entry) => entry.code === options.rush);
+    if (!rush) throw new Error(`Unknown turnaround option: ${options.rush}`);
+    lineItems.push({
+      code: `rush_${rush.code}`,
+      label: `${rush.label} (+${rush.surchargePercent}%)`,
+      amount: round(sum(lineItems) * rush.surchargePercent / 100),
+    });
+  }
+
+  const subtotal = sum(lineItems);
+  if (subtotal < rules.minimumCharge) {
+    lineItems.push({ code: "minimum_charge", label: `Minimum order ($${rules.minimumCharge.toFixed(2)})`, amount: round(rules.minimumCharge - subtotal) });
+  }
+
+  return { lineItems, totalCost: round(sum(lineItems)) };
+}
+
+function sum(items: QuoteLineItem[]): number {
+  return items.reduce((total, item) => total + item.amount, 0);
+}
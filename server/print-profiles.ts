@@ -0,0 +1,154 @@
+import { QUALITY_SETTINGS, type MaterialProperties, type QualitySettings } from "@shared/analysis";
+import { PRINTER } from "@shared/printer";
+import type { Material } from "@shared/schema";
+import { DEFAULT_SLICER_PROFILE, type SlicerProfile } from "./geometry/slicer";
+import type { InfillPattern } from "./geometry/toolpath";
+
+export interface PrinterProfile {
+  name: string;
+  bed: { x: number; y: number; z: number };
+  nozzleDiameter: number; // mm
+  filamentDiameter: number; // mm
+  retractLength: number; // mm
+  retractSpeed: number; // mm/s
+  // Travel moves shorter than this don't retract
+  retractMinTravel: number; // mm
+  startGcode: string;
+  endGcode: string;
+}
+
+// Slicing values only; physical properties come from the material catalogue
+export interface MaterialProfile {
+  name: string;
+  nozzleTemperature: number; // °C
+  bedTemperature: number; // °C
+  fanSpeed: number; // 0-255
+}
+
+export interface QualityProfile {
+  name: string;
+  layerHeight: number; // mm
+  perimeters: number;
+  topBottomLayers: number;
+  infillDensity: number; // 0-1
+  infillPattern: InfillPattern;
+  skirtLoops: number;
+  skirtDistance: number; // mm
+}
+
+// Start and end scripts use {placeholders} filled from the material
+export const PRINTER_PROFILES: Record<string, PrinterProfile> = {
+  [PRINTER.id]: {
+    name: PRINTER.name,
+    bed: PRINTER.buildVolume,
+    nozzleDiameter: 0.4,
+    filamentDiameter: 1.75,
+    retractLength: 0.8,
+    retractSpeed: 40,
+    retractMinTravel: 2,
+    startGcode: [
+      "M140 S{bed_temperature}",
+      "M104 S{nozzle_temperature}",
+      "G28",
+      "M190 S{bed_temperature}",
+      "M109 S{nozzle_temperature}",
+      "G1 Z2.0 F3000",
+      // Two purge lines; extrusion is relative (M83), so each pushes 15 mm
+      "G1 X0.1 Y20 Z0.3 F5000",
+      "G1 X0.1 Y200 Z0.3 F1500 E15",
+      "G1 X0.4 Y200 Z0.3 F5000",
+      "G1 X0.4 Y20 Z0.3 F1500 E15",
+      "G1 Z2.0 F3000",
+    ].join("\n"),
+    endGcode: [
+      "G91",
+      "G1 E-2 Z0.2 F2400",
+      "G1 X5 Y5 F3000",
+      "G1 Z10",
+      "G90",
+      "G1 X0 Y{bed_y}",
+      "M106 S0",
+      "M104 S0",
+      "M140 S0",
+      "M84 X Y E",
+    ].join("\n"),
+  },
+};
+
+export const MATERIAL_PROFILES: Record<string, MaterialProfile> = {
+  pla: { name: "PLA", nozzleTemperature: 205, bedTemperature: 60, fanSpeed: 255 },
+  petg: { name: "PETG", nozzleTemperature: 235, bedTemperature: 80, fanSpeed: 128 },
+  tpu: { name: "TPU", nozzleTemperature: 225, bedTemperature: 50, fanSpeed: 255 },
+  abs: { name: "ABS", nozzleTemperature: 245, bedTemperature: 100, fanSpeed: 0 },
+  asa: { name: "ASA", nozzleTemperature: 250, bedTemperature: 100, fanSpeed: 51 },
+};
+
+// Layer height, walls and infill come from the presets customers choose
+export const QUALITY_PROFILES: Record<string, QualityProfile> = {
+  draft: { ...qualityFields(QUALITY_SETTINGS.draft), infillPattern: "lines", skirtLoops: 1, skirtDistance: 3 },
+  standard: { ...qualityFields(QUALITY_SETTINGS.standard), infillPattern: "grid", skirtLoops: 2, skirtDistance: 3 },
+  fine: { ...qualityFields(QUALITY_SETTINGS.fine), infillPattern: "grid", skirtLoops: 2, skirtDistance: 3 },
+};
+
+function qualityFields(settings: QualitySettings) {
+  return {
+    name: settings.name,
+    layerHeight: settings.layerHeight,
+    perimeters: settings.walls,
+    topBottomLayers: settings.topBottomLayers,
+    infillDensity: settings.infill / 100,
+  };
+}
+
+export interface PrintProfile {
+  printer: PrinterProfile;
+  material: MaterialProfile & MaterialProperties;
+  quality: QualityProfile;
+}
+
+// Infill (percent) and wall count the customer chose instead of the preset's
+export interface QualityOverrides {
+  infill?: number | null;
+  walls?: number | null;
+}
+
+// `material` is the stored material, which has the current density
+export function resolvePrintProfile(
+  printer = PRINTER.id,
+  material: Material,
+  quality = "standard",
+  overrides: QualityOverrides = {},
+): PrintProfile {
+  const printerProfile = PRINTER_PROFILES[printer];
+  const materialProfile = MATERIAL_PROFILES[material.id];
+  if (!printerProfile) throw new Error(`Unknown printer profile: ${printer}`);
+  if (!materialProfile) throw new Error(`Unknown material profile: ${material.id}`);
+  return {
+    printer: printerProfile,
+    material: { ...materialProfile, density: parseFloat(material.density) },
+    quality: resolveQualityProfile(quality, overrides),
+  };
+}
+
+export function resolveQualityProfile(quality = "standard", overrides: QualityOverrides = {}): QualityProfile {
+  const qualityProfile = QUALITY_PROFILES[quality];
+  if (!qualityProfile) throw new Error(`Unknown quality profile: ${quality}`);
+  return {
+    ...qualityProfile,
+    perimeters: overrides.walls ?? qualityProfile.perimeters,
+    infillDensity: overrides.infill != null ? overrides.infill / 100 : qualityProfile.infillDensity,
+  };
+}
+
+// Slicer settings for a profile, on top of our default speeds
+export function slicerSettings({ printer, quality }: Pick<PrintProfile, "printer" | "quality">): SlicerProfile {
+  return {
+    ...DEFAULT_SLICER_PROFILE,
+    layerHeight: quality.layerHeight,
+    firstLayerHeight: Math.max(quality.layerHeight, 0.2),
+    lineWidth: printer.nozzleDiameter * 1.05,
+    perimeters: quality.perimeters,
+    topBottomLayers: quality.topBottomLayers,
+    infillDensity: quality.infillDensity,
+  };
+}
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { quoteOptionsSchema } from "@shared/pricing";
+import type { Quote } from "@shared/schema";
+import { DEFAULT_MATERIALS } from "./material-catalog";
+import { DEFAULT_PRICING_RULES } from "./pricing-defaults";
+import { buildQuote, verifyPrintable, verifyQuote } from "./quotes";
+import { meshAnalysis } from "./test-fixtures";
+
+const DAY = 24 * 60 * 60 * 1000; // ms
+const ISSUED = new Date("2026-03-02T09:00:00Z").getTime();
+
+function issueQuote(analysis = meshAnalysis()): Quote {
+  const options = quoteOptionsSchema.parse({ units: "mm", scale: 100, material: "pla", quantity: 2 });
+  const upload = { path: "uploads/abc", originalname: "part.stl", hash: "abc" };
+  const priceBook = { version: 1, rules: DEFAULT_PRICING_RULES, note: null, createdAt: new Date(ISSUED) };
+  const material = DEFAULT_MATERIALS.find((entry) => entry.id === "pla")!;
+  return { id: "quote-1", createdAt: new Date(ISSUED), ...buildQuote(upload, analysis, options, priceBook, material) };
+}
+
+test("a quote can be ordered for 14 days after it is issued", (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: ISSUED });
+  const quote = issueQuote();
+  assert.equal(quote.expiresAt.getTime(), ISSUED + 14 * DAY);
+
+  verifyQuote(quote);
+  t.mock.timers.setTime(ISSUED + 14 * DAY);
+  verifyQuote(quote);
+  t.mock.timers.setTime(ISSUED + 14 * DAY + 1);
+  assert.throws(() => verifyQuote(quote), /expired/);
+});
+
+test("changing anything the customer is charged from breaks the signature", () => {
+  const quote = issueQuote();
+  const tampered: Quote[] = [
+    { ...quote, totalCost: "0.01" },
+    { ...quote, lineItems: quote.lineItems.map((item) => ({ ...item, amount: item.amount / 2 })) },
+    { ...quote, options: { ...quote.options, quantity: 20 } },
+    { ...quote, options: { ...quote.options, material: "petg" } },
+    { ...quote, fileHash: "def" },
+    { ...quote, priceBookVersion: 2 },
+    { ...quote, expiresAt: new Date(quote.expiresAt.getTime() + 365 * DAY) },
+    { ...quote, signature: "" },
+  ];
+
+  verifyQuote(quote);
+  for (const copy of tampered) {
+    assert.throws(() => verifyQuote(copy), /not valid/);
+  }
+});
+
+test("quotes for parts too large for the printer can't be ordered", () => {
+  const analysis = meshAnalysis();
+  const oversized = issueQuote({ ...analysis, fit: { ...analysis.fit, fits: false, placement: "too-large", piecesNeeded: 2 } });
+
+  verifyQuote(oversized);
+  assert.throws(() => verifyPrintable(oversized), /part.stl is too large for our printer/);
+  verifyPrintable(issueQuote());
+});
@@ -0,0 +1,73 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { ModelAnalysis } from "@shared/analysis";
+import type { QuoteOptions } from "@shared/pricing";
+import type { InsertQuote, Material, PriceBook, Quote } from "@shared/schema";
+import { priceOrder } from "./pricing";
+import type { StoredUpload } from "./uploads";
+
+// Orders must be placed within this long of the quote
+const QUOTE_TTL = 14 * 24 * 60 * 60 * 1000; // ms
+
+// Without a configured secret, quotes can't be ordered after a restart
+const quoteSecret = process.env.QUOTE_SECRET || randomBytes(32).toString("hex");
+if (!process.env.QUOTE_SECRET) {
+  console.error('Warning: QUOTE_SECRET environment variable is not set. Quotes will be invalidated on restart.');
+}
+
+// Prices an analysed upload under a price book, normally the current one
+export function buildQuote(
+  upload: StoredUpload,
+  analysis: ModelAnalysis,
+  options: QuoteOptions,
+  priceBook: PriceBook,
+  material: Material,
+): InsertQuote {
+  const price = priceOrder(analysis, options, priceBook.rules, parseFloat(material.pricePerGram));
+  const quote = {
+    fileHash: upload.hash,
+    modelFileName: upload.originalname,
+    options,
+    analysis,
+    lineItems: price.lineItems,
+    totalCost: price.totalCost.toFixed(2),
+    priceBookVersion: priceBook.version,
+    expiresAt: new Date(Date.now() + QUOTE_TTL),
+  };
+  return { ...quote, signature: sign(quote) };
+}
+
+// Throws unless the quote is unaltered since it was issued and still current
+export function verifyQuote(quote: Quote) {
+  const expected = Buffer.from(sign(quote));
+  const actual = Buffer.from(quote.signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new Error("This quote is not valid. Please upload your model again.");
+  }
+  if (quote.expiresAt.getTime() < Date.now()) {
+    throw new Error("This quote has expired. Please upload your model again for a new quote.");
+  }
+}
+
+// Throws when the quoted model is too large for our printer. Such models are
+// still priced so the customer sees the cost, but can't be ordered.
+export function verifyPrintable(quote: Quote) {
+  if (quote.analysis.fit.fits === false) {
+    throw new Error(`${quote.modelFileName} is too large for our printer. Please scale it down or split it before ordering.`);
+  }
+}
+
+// HMAC-SHA256 over everything the customer is charged from. Values are
+// listed in a fixed order since jsonb columns don't keep key order.
+function sign(quote: Omit<InsertQuote, "signature">): string {
+  const { units, scale, overhangAngle, material, quality, infill, walls, supportRemoval, postProcessing, rush, quantity } = quote.options;
+  const content = JSON.stringify([
+    quote.fileHash,
+    quote.modelFileName,
+    [units, scale, overhangAngle, material, quality, infill ?? null, walls ?? null, supportRemoval, postProcessing, rush ?? null, quantity],
+    quote.lineItems.map((item) => [item.code, item.label, item.amount]),
+    quote.totalCost,
+    quote.priceBookVersion,
+    quote.expiresAt.toISOString(),
+  ]);
+  return createHmac("sha256", quoteSecret).update(content).digest("base64url");
+}
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import fs from "fs/promises";
+import path from "path";
+import express from "express";
+import { meshFromTriangles } from "./geometry/mesh";
+import { writeBinaryStl } from "./geometry/stl";
+import { cube } from "./geometry/test-fixtures";
+import { registerRoutes } from "./routes";
+import { sessionMiddleware } from "./session";
+import { UPLOAD_DIR } from "./uploads";
+
+let server: Server;
+let baseUrl: string;
+const storedHashes: string[] = [];
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  app.use(sessionMiddleware);
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  // fetch keeps connections alive, which would hold the server open
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  // Uploads land in the real upload directory; drop them and their previews
+  const files = await fs.readdir(UPLOAD_DIR);
+  await Promise.all(files
+    .filter((file) => storedHashes.some((hash) => file.startsWith(hash)))
+    .map((file) => fs.rm(path.join(UPLOAD_DIR, file), { force: true })));
+});
+
+// A browser: requests share one session cookie
+function browser() {
+  let cookie = "";
+  return async (route: string, init: RequestInit = {}) => {
+    const response = await fetch(`${baseUrl}${route}`, {
+      ...init,
+      headers: { ...(init.headers as Record<string, string>), ...(cookie ? { cookie } : {}) },
+    });
+    const setCookie = response.headers.get("set-cookie");
+    if (setCookie) cookie = setCookie.split(";")[0];
+    return response;
+  };
+}
+
+const OPTIONS = { units: "mm", scale: 100, material: "pla", quality: "standard" };
+
+function json(method: string, body: unknown): RequestInit {
+  return { method, headers: { "content-type": "application/json" }, body: JSON.stringify(body) };
+}
+
+function uploadForm(file: Buffer, fileName: string): RequestInit {
+  const form = new FormData();
+  form.append("modelFile", new Blob([file]), fileName);
+  for (const [key, value] of Object.entries(OPTIONS)) form.append(key, String(value));
+  return { method: "POST", body: form };
+}
+
+test("a file the server already holds is restored from the cart of the session that uploaded it", async () => {
+  // A size no other test uses, so the content is new to the upload directory
+  const model = writeBinaryStl(meshFromTriangles(cube(0, 10 + Math.random() * 10)));
+  const fileName = "part.stl";
+
+  const first = browser();
+  const firstUpload = await first("/api/analyze-model", uploadForm(model, fileName));
+  assert.equal(firstUpload.status, 202);
+  const { fileHash } = await firstUpload.json();
+  storedHashes.push(fileHash);
+
+  // Another customer with the same file only sends its hash first and has to
+  // upload it before it counts as theirs
+  const second = browser();
+  const byHash = await second("/api/analyze-model", json("POST", { hash: fileHash, fileName, ...OPTIONS }));
+  assert.deepEqual(await byHash.json(), { uploadRequired: true });
+  const secondUpload = await second("/api/analyze-model", uploadForm(model, fileName));
+  assert.equal(secondUpload.status, 202);
+
+  const quoted = await second("/api/quotes", json("POST", { fileHash, fileName, ...OPTIONS, quantity: 1 }));
+  assert.equal(quoted.status, 201);
+  const quote = await quoted.json();
+  assert.equal((await second("/api/cart/items/item-1", json("PUT", { quoteId: quote.id, color: "Black" }))).status, 200);
+
+  // On the next visit the cart lists the item and serves its file back
+  const cart = await (await second("/api/cart")).json();
+  assert.deepEqual(cart.map((item: { id: string }) => item.id), ["item-1"]);
+  const restored = await second("/api/cart/items/item-1/file");
+  assert.equal(restored.status, 200);
+  assert.ok(Buffer.from(await restored.arrayBuffer()).equals(model));
+
+  // Knowing the quote, and with it the hash, is not enough to download it
+  const third = browser();
+  await third("/api/analyze-model", json("POST", { hash: fileHash, fileName, ...OPTIONS }));
+  assert.equal((await third("/api/cart/items/item-1", json("PUT", { quoteId: quote.id, color: "Black" }))).status, 200);
+  assert.equal((await third("/api/cart/items/item-1/file")).status, 403);
+});
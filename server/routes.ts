@@ -1,23 +1,43 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertOrderSchema } from "@shared/schema";
+import { MAX_ORDER_ITEMS, orderRequestSchema, type InsertOrder, type Material, type OrderWithItems, type Quote } from "@shared/schema";
+import { cartItemIdSchema, cartItemUpdateSchema, checkoutRequestSchema } from "@shared/cart";
+import { analysisOptionsSchema, type AnalysisJobState } from "@shared/analysis";
+import { formatAmount, pricingRulesSchema, quoteOptionsSchema } from "@shared/pricing";
 import multer from "multer";
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
 import { Resend } from 'resend';
+import { analysisPool, AnalysisQueueFullError } from "./analysis-pool";
+import { buildQuote, verifyPrintable, verifyQuote } from "./quotes";
+import { cartWithQuotes, revalidateCart } from "./cart";
+import { rememberUpload, uploadedBySession } from "./session";
+import { getOrderableMaterial, materialProperties } from "./materials";
+import { findUpload, storeUpload, UPLOAD_DIR, type StoredUpload } from "./uploads";
+import { requireAdmin } from "./admin";
+import { orderItemFromQuote } from "./orders";
+import { resolvePrintProfile } from "./print-profiles";
 
-// Configure multer for file uploads
+const allowedTypes = ['.stl', '.obj', '.3mf', '.gcode'];
+
+function isAllowedModelFile(fileName: string): boolean {
+  const ext = fileName.toLowerCase().slice(fileName.lastIndexOf('.'));
+  return allowedTypes.includes(ext);
+}
+
+// Configure multer for file uploads; files are renamed to their SHA-256 by storeUpload
 const upload = multer({
-  dest: 'uploads/',
+  dest: UPLOAD_DIR,
   limits: {
     fileSize: 50 * 1024 * 1024, // 50MB limit
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ['.stl', '.obj', '.3mf'];
-    const ext = file.originalname.toLowerCase().slice(file.originalname.lastIndexOf('.'));
-    if (allowedTypes.includes(ext)) {
+    if (isAllowedModelFile(file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only STL, OBJ, and 3MF files are allowed.'));
+      cb(new Error('Invalid file type. Only STL, OBJ, 3MF and G-code files are allowed.'));
     }
   }
 });
@@ -32,108 +52,56 @@ if (!resendApiKey) {
 }
 const resend = resendApiKey ? new Resend(resendApiKey) : null;
 
-// Mock 3D model analysis function
-function analyze3DModel(file: Express.Multer.File) {
-  // More realistic estimation algorithm based on typical 3D prints
-  const fileSizeMB = file.size / (1024 * 1024);
-
-  // Estimate weight: Most STL files are 1-10MB for small-medium objects (10-100g)
-  // Typical ratio: ~1MB file ≈ 15-25 grams for normal density objects
-  let estimatedWeight;
-  if (fileSizeMB < 1) {
-    estimatedWeight = Math.max(5, fileSizeMB * 20); // Small objects
-  } else if (fileSizeMB < 5) {
-    estimatedWeight = 20 + (fileSizeMB - 1) * 15; // Medium objects
-  } else {
-    estimatedWeight = 80 + (fileSizeMB - 5) * 10; // Large objects
-  }
-
-  // Print time estimation based on Ender 3 S1 Pro capabilities
-  // Typical speeds: 50-80mm/s, layer height 0.2mm
-  // Rough estimate: 1-3 hours per 10-20 grams of material
-  const printTimeMinutes = Math.max(30, estimatedWeight * 1.5 + (fileSizeMB * 20));
+const orderStatusSchema = z.object({
+  status: z.enum(["pending", "confirmed", "in_progress", "completed"]),
+});
 
-  return {
-    weight: parseFloat(estimatedWeight.toFixed(2)),
-    printTime: formatPrintTime(printTimeMinutes),
-    baseCost: parseFloat((estimatedWeight * 0.25).toFixed(2)),
-  };
-}
+const priceBookUpdateSchema = z.object({
+  rules: pricingRulesSchema,
+  note: z.string().max(200).optional(),
+});
 
-function formatPrintTime(minutes: number): string {
-  const hours = Math.floor(minutes / 60);
-  const mins = Math.floor(minutes % 60);
-  return `${hours}h ${mins}m`;
-}
+// Profile keys from print-profiles.ts; omitted ones use the shop defaults
+const gcodeExportSchema = z.object({
+  printer: z.string().optional(),
+  material: z.string().optional(),
+  quality: z.string().optional(),
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Create a new order
-  app.post("/api/orders", upload.single('modelFile'), async (req, res) => {
+  // Create an order for one or more quoted models
+  app.post("/api/orders", async (req, res) => {
     try {
       const orderData = req.body;
-      const modelFile = req.file;
 
       console.log('Full received order data:', orderData);
 
-      // Validate the order data
-      const validatedOrder = insertOrderSchema.parse({
-        ...orderData,
-        supportRemoval: orderData.supportRemoval === 'true',
-      });
-
-      // Use provided analysis data if available, otherwise analyze the file
-      if (modelFile) {
-        validatedOrder.modelFileName = modelFile.originalname;
-
-        // Debug log to check received data
-        console.log('Received order data:', {
-          modelWeight: orderData.modelWeight,
-          printTime: orderData.printTime,
-          baseCost: orderData.baseCost,
-          totalCost: orderData.totalCost,
-          supportCost: orderData.supportCost
-        });
+      // Validate the customer's details. Everything describing the models and
+      // their prices comes from the quotes, never from the request.
+      const { items: requestedItems, ...customer } = orderRequestSchema.parse(orderData);
 
-        // If analysis data was provided from frontend, use it
-        if (orderData.modelWeight && orderData.printTime && orderData.baseCost) {
-          console.log('Using frontend analysis data');
-          validatedOrder.modelWeight = orderData.modelWeight;
-          validatedOrder.printTime = orderData.printTime;
-          validatedOrder.baseCost = orderData.baseCost;
-          validatedOrder.supportCost = orderData.supportCost || (validatedOrder.supportRemoval ? "5.00" : "0.00");
-          validatedOrder.totalCost = orderData.totalCost;
-        } else {
-          // Fallback to backend analysis if no frontend data
-          console.log('Using backend analysis fallback');
-          const analysis = analyze3DModel(modelFile);
-          validatedOrder.modelWeight = analysis.weight.toString();
-          validatedOrder.printTime = analysis.printTime;
-          validatedOrder.baseCost = analysis.baseCost.toString();
-
-          const baseCost = analysis.baseCost;
-          const supportCost = validatedOrder.supportRemoval ? 5.00 : 0.00;
-          const totalCost = baseCost + supportCost;
-
-          validatedOrder.supportCost = supportCost.toString();
-          validatedOrder.totalCost = totalCost.toString();
+      const entries: OrderEntry[] = [];
+      for (const { quoteId, color } of requestedItems) {
+        const quote = await storage.getQuote(quoteId);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote not found. Please upload your model again." });
         }
-      }
-
-      // Create the order
-      const order = await storage.createOrder(validatedOrder);
-
-      // Send email notification
-      try {
-        if (resend) {
-          await sendOrderEmail(order, modelFile);
-        } else {
-          console.log('Email notification skipped - Resend API key not configured');
+        verifyQuote(quote);
+        verifyPrintable(quote);
+        const modelFile = await findUpload(quote.fileHash, quote.modelFileName);
+        if (!modelFile) {
+          return res.status(410).json({ message: `${quote.modelFileName} is no longer available. Please upload it again.` });
         }
-      } catch (emailError) {
-        console.error('Failed to send email:', emailError);
-        // Continue with order creation even if email fails
+        // The material may have sold out or left our printer since the quote.
+        // The colour is picked with the order; it has to be one the material comes in.
+        const material = await getOrderableMaterial(quote.options.material);
+        if (!material.colors.some((entry) => entry.name === color)) {
+          return res.status(400).json({ message: `${material.name} isn't available in ${color}` });
+        }
+        entries.push({ quote, modelFile, material, color });
       }
 
+      const order = await placeOrder(customer, entries);
       res.json(order);
     } catch (error: any) {
       console.error('Order creation error:', error);
@@ -141,41 +109,449 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get order by ID
+  // The customer's cart, kept in their browser session between visits
+  app.get("/api/cart", async (req, res) => {
+    try {
+      res.json(await cartWithQuotes(req.session.cart ?? []));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Add a quoted model to the cart, or point an item at a new quote after
+  // the customer changed its options
+  app.put("/api/cart/items/:id", async (req, res) => {
+    try {
+      const id = cartItemIdSchema.parse(req.params.id);
+      const { quoteId, color } = cartItemUpdateSchema.parse(req.body);
+      const quote = await storage.getQuote(quoteId);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found. Please upload your model again." });
+      }
+      verifyQuote(quote);
+      verifyPrintable(quote);
+      const material = await storage.getMaterial(quote.options.material);
+      if (!material?.colors.some((entry) => entry.name === color)) {
+        return res.status(400).json({ message: `${material?.name ?? quote.options.material} isn't available in ${color}` });
+      }
+
+      const cart = req.session.cart ?? [];
+      const existing = cart.some((item) => item.id === id);
+      if (!existing && cart.length >= MAX_ORDER_ITEMS) {
+        return res.status(400).json({ message: `Your cart can hold at most ${MAX_ORDER_ITEMS} models` });
+      }
+      req.session.cart = existing
+        ? cart.map((item) => item.id === id ? { ...item, quoteId, color } : item)
+        : cart.concat({ id, quoteId, color, addedAt: new Date().toISOString() });
+      res.json(await cartWithQuotes(req.session.cart));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/cart/items/:id", async (req, res) => {
+    try {
+      req.session.cart = (req.session.cart ?? []).filter((item) => item.id !== req.params.id);
+      res.json(await cartWithQuotes(req.session.cart));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // A cart item's model file, so a returning customer's browser can show and
+  // re-quote it without uploading it again
+  app.get("/api/cart/items/:id/file", async (req, res) => {
+    try {
+      const item = req.session.cart?.find((entry) => entry.id === req.params.id);
+      const quote = item && await storage.getQuote(item.quoteId);
+      if (!quote) {
+        return res.status(404).json({ message: "This item is not in your cart" });
+      }
+      if (!uploadedBySession(req, quote.fileHash)) {
+        return res.status(403).json({ message: `${quote.modelFileName} wasn't uploaded from this browser. Please upload it again.` });
+      }
+      const modelFile = await findUpload(quote.fileHash, quote.modelFileName);
+      if (!modelFile) {
+        return res.status(410).json({ message: `${quote.modelFileName} is no longer available. Please upload it again.` });
+      }
+      res.download(path.resolve(modelFile.path), quote.modelFileName);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Order everything in the cart. Items are re-quoted under the current
+  // prices first; if any price changed or an item can no longer be made, the
+  // cart is updated and the changes returned for the customer to review
+  // instead of placing the order.
+  app.post("/api/cart/checkout", async (req, res) => {
+    try {
+      const customer = checkoutRequestSchema.parse(req.body);
+      const cart = req.session.cart ?? [];
+      if (cart.length === 0) {
+        return res.status(400).json({ message: "Your cart is empty" });
+      }
+
+      const { items, changes } = await revalidateCart(cart);
+      req.session.cart = items.map((entry) => entry.item);
+      items.forEach(({ quote }) => verifyPrintable(quote));
+      if (changes.length > 0) {
+        return res.status(409).json({
+          message: "Some items in your cart have changed since you added them. Please review them and check out again.",
+          changes,
+          items: items.map(({ item, quote }) => ({ ...item, quote })),
+        });
+      }
+
+      const order = await placeOrder(customer, items.map(({ item, quote, modelFile, material }) => ({ quote, modelFile, material, color: item.color })));
+      req.session.cart = [];
+      res.status(201).json({ order });
+    } catch (error: any) {
+      console.error('Checkout error:', error);
+      res.status(error instanceof AnalysisQueueFullError ? 503 : 400).json({ message: error.message || "Failed to check out" });
+    }
+  });
+
+  // Material catalogue, including out-of-stock and incompatible materials
+  app.get("/api/materials", async (req, res) => {
+    try {
+      res.json(await storage.getMaterials());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/materials/:id", async (req, res) => {
+    try {
+      const material = await storage.getMaterial(req.params.id);
+      if (!material) {
+        return res.status(404).json({ message: "Material not found" });
+      }
+      res.json(material);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get order by ID, with its items
   app.get("/api/orders/:id", async (req, res) => {
     try {
       const order = await storage.getOrder(req.params.id);
       if (!order) {
         return res.status(404).json({ message: "Order not found" });
       }
-      res.json(order);
+      res.json({ ...order, items: await storage.getOrderItems(order.id) });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Analyze 3D model file
+  // Queue a 3D model file for analysis; the result is collected from the job.
+  // Clients may send the file's SHA-256 instead of the file. They are asked to
+  // upload it if we don't hold that content, or if this session hasn't
+  // uploaded it before: the hash alone doesn't prove the customer has the
+  // file, and cart restores only serve files the session uploaded.
   app.post("/api/analyze-model", upload.single('modelFile'), async (req, res) => {
     try {
-      if (!req.file) {
+      const options = analysisOptionsSchema.parse(req.body);
+      const material = await getOrderableMaterial(options.material);
+      let modelFile: StoredUpload | undefined;
+      if (req.file) {
+        modelFile = await storeUpload(req.file);
+        rememberUpload(req, modelFile.hash);
+      } else if (typeof req.body.hash === 'string' && typeof req.body.fileName === 'string') {
+        if (!isAllowedModelFile(req.body.fileName)) {
+          return res.status(400).json({ message: "Invalid file type. Only STL, OBJ, 3MF and G-code files are allowed." });
+        }
+        modelFile = await findUpload(req.body.hash, req.body.fileName);
+        if (!modelFile || !uploadedBySession(req, modelFile.hash)) {
+          return res.json({ uploadRequired: true });
+        }
+      } else {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const analysis = analyze3DModel(req.file);
-      res.json(analysis);
+      const job = analysisPool.submit(modelFile, options, materialProperties(material));
+      res.status(202).json({ jobId: job.state.id, fileHash: modelFile.hash });
+    } catch (error: any) {
+      // Drop a rejected upload; once stored under its hash this is a no-op
+      if (req.file) await fs.rm(req.file.path, { force: true });
+      res.status(error instanceof AnalysisQueueFullError ? 503 : 400).json({ message: error.message });
+    }
+  });
+
+  // Price a stored upload, analysing it first if it isn't cached
+  app.post("/api/quotes", async (req, res) => {
+    try {
+      const options = quoteOptionsSchema.parse(req.body);
+      const { fileHash, fileName } = req.body;
+      if (typeof fileHash !== 'string' || typeof fileName !== 'string' || !isAllowedModelFile(fileName)) {
+        return res.status(400).json({ message: "A stored STL, OBJ, 3MF or G-code file is required" });
+      }
+      const modelFile = await findUpload(fileHash, fileName);
+      if (!modelFile) {
+        return res.status(404).json({ message: "Upload not found. Please upload your model again." });
+      }
+
+      const material = await getOrderableMaterial(options.material);
+      const job = await analysisPool.submit(modelFile, options, materialProperties(material)).done;
+      if (!job.result) {
+        throw new Error(job.error || "Failed to analyze model");
+      }
+      const priceBook = await storage.getCurrentPriceBook();
+      const quote = await storage.createQuote(buildQuote(modelFile, job.result, options, priceBook, material));
+      res.status(201).json(quote);
+    } catch (error: any) {
+      res.status(error instanceof AnalysisQueueFullError ? 503 : 400).json({ message: error.message });
+    }
+  });
+
+  // Current pricing rules; the order form offers the finishing and turnaround options in them
+  app.get("/api/pricing", async (req, res) => {
+    try {
+      res.json(await storage.getCurrentPriceBook());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Quotes are public by ID so they can be shared as links
+  app.get("/api/quotes/:id", async (req, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.json(quote);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/quotes/:id/thumbnail", async (req, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id);
+      if (!quote || quote.analysis.kind !== 'mesh' || !quote.analysis.thumbnailFile) {
+        return res.status(404).json({ message: "No thumbnail for this quote" });
+      }
+      res.sendFile(path.resolve(UPLOAD_DIR, quote.analysis.thumbnailFile));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Current state of an analysis job
+  app.get("/api/analyze-model/:jobId", (req, res) => {
+    const job = analysisPool.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ message: "Analysis job not found" });
+    }
+    res.json(job.state);
+  });
+
+  // Server-Sent Events: a "progress" event per stage, then "result" or "failed"
+  app.get("/api/analyze-model/:jobId/events", (req, res) => {
+    const job = analysisPool.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ message: "Analysis job not found" });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+
+    const send = (state: AnalysisJobState) => {
+      if (state.status === "done") {
+        res.write(`event: result\ndata: ${JSON.stringify(state.result)}\n\n`);
+      } else if (state.status === "failed") {
+        res.write(`event: failed\ndata: ${JSON.stringify({ message: state.error })}\n\n`);
+      } else {
+        res.write(`event: progress\ndata: ${JSON.stringify({ status: state.status, stage: state.stage })}\n\n`);
+        return;
+      }
+      job.off("update", send);
+      res.end();
+    };
+
+    job.on("update", send);
+    req.on("close", () => job.off("update", send));
+    send(job.state);
+  });
+
+  // Admin: list all orders, newest first
+  app.get("/api/admin/orders", requireAdmin, async (req, res) => {
+    try {
+      const orders = await storage.getAllOrders();
+      orders.sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+      const withItems: OrderWithItems[] = await Promise.all(
+        orders.map(async (order) => ({ ...order, items: await storage.getOrderItems(order.id) })),
+      );
+      res.json(withItems);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Admin: every price book version, newest first
+  app.get("/api/admin/pricing", requireAdmin, async (req, res) => {
+    try {
+      const priceBooks = await storage.getPriceBooks();
+      res.json(priceBooks.reverse());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Admin: save new pricing rules as the next version. Existing quotes keep
+  // the version they were priced with.
+  app.post("/api/admin/pricing", requireAdmin, async (req, res) => {
+    try {
+      const { rules, note } = priceBookUpdateSchema.parse(req.body);
+      const priceBook = await storage.createPriceBook(rules, note);
+      res.status(201).json(priceBook);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Admin: move an order through the workflow
+  app.patch("/api/admin/orders/:id/status", requireAdmin, async (req, res) => {
+    try {
+      const { status } = orderStatusSchema.parse(req.body);
+      const order = await storage.updateOrder(req.params.id, { status });
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(order);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Admin: slice one model of a confirmed order into G-code for the print queue
+  app.post("/api/admin/order-items/:id/gcode", requireAdmin, async (req, res) => {
+    try {
+      const item = await storage.getOrderItem(req.params.id);
+      const order = item && await storage.getOrder(item.orderId);
+      const quote = item && await storage.getQuote(item.quoteId);
+      if (!item || !order || !quote) {
+        return res.status(404).json({ message: "Order item not found" });
+      }
+      if (order.status === "pending") {
+        return res.status(409).json({ message: "Confirm the order before generating G-code" });
+      }
+      if (item.preSliced) {
+        return res.status(409).json({ message: "This order was uploaded as G-code; print the customer's file" });
+      }
+
+      const options = gcodeExportSchema.parse(req.body);
+      // Unless overridden, print with what the customer ordered
+      const materialId = options.material ?? item.material ?? "pla";
+      const material = await storage.getMaterial(materialId);
+      if (!material) {
+        return res.status(400).json({ message: `Unknown material: ${materialId}` });
+      }
+      const profile = resolvePrintProfile(
+        options.printer,
+        material,
+        options.quality ?? item.quality ?? undefined,
+        { infill: item.infill, walls: item.walls },
+      );
+      // Orient and check supports at the overhang angle it was quoted with
+      const result = await analysisPool.exportGcode(item, profile, quote.options.overhangAngle);
+      const updated = await storage.updateOrderItem(item.id, { gcodeFileName: result.fileName });
+      res.json({ item: updated, ...result });
     } catch (error: any) {
+      console.error('G-code export error:', error);
       res.status(400).json({ message: error.message });
     }
   });
 
+  // Admin: preview image rendered when the model was quoted
+  app.get("/api/admin/order-items/:id/thumbnail", requireAdmin, async (req, res) => {
+    try {
+      const item = await storage.getOrderItem(req.params.id);
+      if (!item || !item.thumbnailFileName) {
+        return res.status(404).json({ message: "No thumbnail for this item" });
+      }
+      res.sendFile(path.resolve(path.dirname(item.modelFilePath), item.thumbnailFileName));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Admin: download the generated G-code
+  app.get("/api/admin/order-items/:id/gcode", requireAdmin, async (req, res) => {
+    try {
+      const item = await storage.getOrderItem(req.params.id);
+      if (!item || !item.gcodeFileName) {
+        return res.status(404).json({ message: "No G-code has been generated for this item" });
+      }
+      const filePath = path.resolve(path.dirname(item.modelFilePath), item.gcodeFileName);
+      res.download(filePath, `${path.parse(item.modelFileName).name}.gcode`);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
 
-async function sendOrderEmail(order: any, modelFile?: Express.Multer.File) {
+// A verified quote to order, with the stored model and the chosen colour
+interface OrderEntry {
+  quote: Quote;
+  modelFile: StoredUpload;
+  material: Material;
+  color: string;
+}
+
+// Creates the order, charging each item exactly its quoted price, and emails
+// the shop about it
+async function placeOrder(customer: Omit<InsertOrder, "totalCost">, entries: OrderEntry[]): Promise<OrderWithItems> {
+  const items = entries.map(({ quote, modelFile, material, color }, position) =>
+    orderItemFromQuote(quote, modelFile, material, color, position));
+  const totalCost = entries.reduce((sum, { quote }) => sum + parseFloat(quote.totalCost), 0);
+  const order = await storage.createOrder({ ...customer, totalCost: totalCost.toFixed(2) }, items);
+
+  // Send email notification
+  try {
+    if (resend) {
+      await sendOrderEmail(order, entries.map((entry) => entry.quote), entries.map((entry) => entry.modelFile));
+    } else {
+      console.log('Email notification skipped - Resend API key not configured');
+    }
+  } catch (emailError) {
+    console.error('Failed to send email:', emailError);
+    // Continue with order creation even if email fails
+  }
+  return order;
+}
+
+// Lists each model with its price, attaching the models and showing their
+// thumbnails inline
+async function sendOrderEmail(order: OrderWithItems, quotes: Quote[], modelFiles: StoredUpload[]) {
   if (!resend) {
     throw new Error('Resend API key not configured');
   }
+  const itemDetails = order.items.map((item, index) => `
+    ${index + 1}. ${item.modelFileName}
+    Quantity: ${item.quantity}
+    ${item.preSliced ? 'PRE-SLICED G-CODE: print as supplied, do not reslice' : ''}
+    ${item.preSliced ? '' : `Scale: ${item.modelScale}% (file units: ${item.modelUnits})`}
+    Material: ${item.material?.toUpperCase()} (${item.color})
+    ${item.preSliced ? '' : `Quality: ${item.quality}, ${item.infill}% infill, ${item.walls} walls`}
+    Weight: ${item.modelWeight}g each
+    Print Time: ${item.printTime}
+    ${item.preSliced ? '' : item.modelRepaired ? `Quoted from automatically repaired mesh: ${item.repairSummary}` : 'Quoted from original mesh'}
+    Pricing (quote ${item.quoteId}):
+    ${quotes[index].lineItems.map((line) => `${line.label}: ${formatAmount(line.amount)}`).join('\n    ')}
+    Support Removal: ${item.supportRemoval ? 'Yes' : 'No'}
+    Item Total: $${item.totalCost}
+  `).join('');
+
   const emailContent = `
     New 3D Printing Order Received
 
@@ -189,53 +565,59 @@ async function sendOrderEmail(order: any, modelFile?: Express.Multer.File) {
     City: ${order.city}, ${order.state} ${order.zipCode}
     ` : 'Meetup location - customer will be contacted'}
 
-    Model Details:
-    File: ${order.modelFileName || 'Not provided'}
-    Weight: ${order.modelWeight}g
-    Print Time: ${order.printTime}
-
-    Pricing:
-    Base Cost: $${order.baseCost}
-    Support Removal: ${order.supportRemoval ? 'Yes (+$5.00)' : 'No'}
+    Models (${order.items.length}):
+    ${itemDetails}
     Total Cost: $${order.totalCost}
 
-    Order Date: ${new Date(order.createdAt).toLocaleString()}
+    Order Date: ${order.createdAt?.toLocaleString()}
   `;
 
-  let attachments = [];
-  
-  if (modelFile) {
-    try {
-      const fs = await import('fs');
-      const path = await import('path');
-      
-      if (fs.existsSync(modelFile.path)) {
-        const fileContent = fs.readFileSync(modelFile.path);
-        const fileExtension = path.extname(modelFile.originalname).toLowerCase();
-        
-        let contentType = 'application/octet-stream';
-        if (fileExtension === '.stl') contentType = 'application/sla';
-        else if (fileExtension === '.obj') contentType = 'text/plain';
-        else if (fileExtension === '.3mf') contentType = 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml';
-        
-        attachments = [{
-          filename: modelFile.originalname,
-          content: fileContent,
-          contentType: contentType
-        }];
-      }
+  const attachments: { filename: string; content: Buffer; contentType: string; contentId?: string }[] = [];
+  let thumbnailHtml = '';
+
+  for (let index = 0; index < order.items.length; index++) {
+    const item = order.items[index];
+    const modelFile = modelFiles[index];
+    try {
+      const fileExtension = path.extname(modelFile.originalname).toLowerCase();
+      let contentType = 'application/octet-stream';
+      if (fileExtension === '.stl') contentType = 'application/sla';
+      else if (fileExtension === '.obj') contentType = 'text/plain';
+      else if (fileExtension === '.3mf') contentType = 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml';
+      else if (fileExtension === '.gcode') contentType = 'text/x-gcode';
+
+      attachments.push({
+        filename: modelFile.originalname,
+        content: await fs.readFile(modelFile.path),
+        contentType: contentType
+      });
     } catch (error) {
       console.error('Error reading model file for email attachment:', error);
     }
+
+    // Preview images shown inline above the order details
+    if (item.thumbnailFileName) {
+      try {
+        attachments.push({
+          filename: `model-preview-${index + 1}.png`,
+          content: await fs.readFile(path.join(path.dirname(modelFile.path), item.thumbnailFileName)),
+          contentType: 'image/png',
+          contentId: `model-preview-${index + 1}`,
+        });
+        thumbnailHtml += `<img src="cid:model-preview-${index + 1}" alt="${index + 1}. ${item.modelFileName}" width="200" height="200" />`;
+      } catch (error) {
+        console.error('Error reading thumbnail for email:', error);
+      }
+    }
   }
 
   const emailOptions = {
     from: 'PointZero Designs <noreply@pointzerodesigns.com>',
     to: 'pointzero3dofficial@gmail.com',
     subject: `New 3D Printing Order - ${order.customerName}`,
-    html: `<pre>${emailContent}</pre>`,
+    html: `${thumbnailHtml}<pre>${emailContent}</pre>`,
     attachments
   };
 
   await resend.emails.send(emailOptions);
-}
\ No newline at end of file
+}
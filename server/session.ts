@@ -0,0 +1,53 @@
+import { randomBytes } from "crypto";
+import type { Request } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import type { CartItem } from "@shared/cart";
+
+// Carts are kept this long after the customer's last visit
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000; // ms
+// Uploads remembered per session; older ones have to be uploaded again
+const MAX_SESSION_UPLOADS = 100;
+
+declare module "express-session" {
+  interface SessionData {
+    cart: CartItem[];
+    // Hashes of the files this browser uploaded itself, newest last
+    uploads: string[];
+  }
+}
+
+// Without a configured secret, customers lose their carts on restart
+const sessionSecret = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+if (!process.env.SESSION_SECRET) {
+  console.error('Warning: SESSION_SECRET environment variable is not set. Carts will be lost on restart.');
+}
+
+const MemoryStore = createMemoryStore(session);
+
+// Browser sessions holding each customer's cart and uploads. A session and
+// its cookie are only created once a file is uploaded or something is added
+// to the cart, and every visit extends them.
+export const sessionMiddleware = session({
+  store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }), // prune expired sessions daily
+  secret: sessionSecret,
+  resave: false,
+  saveUninitialized: false,
+  rolling: true,
+  cookie: {
+    httpOnly: true,
+    sameSite: "lax",
+    maxAge: SESSION_TTL,
+  },
+});
+
+// Files are only served back to the browser that uploaded them. Knowing a
+// file's hash, which quotes carry, is not enough.
+export function rememberUpload(req: Request, hash: string) {
+  const uploads = (req.session.uploads ?? []).filter((entry) => entry !== hash);
+  req.session.uploads = uploads.concat(hash).slice(-MAX_SESSION_UPLOADS);
+}
+
+export function uploadedBySession(req: Request, hash: string): boolean {
+  return req.session.uploads?.includes(hash) ?? false;
+}
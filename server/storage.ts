@@ -1,25 +1,46 @@
-import { type Order, type InsertOrder } from "@shared/schema";
+import { type Order, type InsertOrder, type OrderItem, type InsertOrderItem, type OrderWithItems, type Quote, type InsertQuote, type Material, type PriceBook } from "@shared/schema";
+import type { PricingRules } from "@shared/pricing";
 import { randomUUID } from "crypto";
+import { DEFAULT_MATERIALS } from "./material-catalog";
+import { DEFAULT_PRICING_RULES } from "./pricing-defaults";
 
 export interface IStorage {
   getOrder(id: string): Promise<Order | undefined>;
-  createOrder(order: InsertOrder): Promise<Order>;
+  createOrder(order: InsertOrder, items: InsertOrderItem[]): Promise<OrderWithItems>;
   updateOrder(id: string, updates: Partial<Order>): Promise<Order | undefined>;
   getAllOrders(): Promise<Order[]>;
+  getOrderItems(orderId: string): Promise<OrderItem[]>;
+  getOrderItem(id: string): Promise<OrderItem | undefined>;
+  updateOrderItem(id: string, updates: Partial<OrderItem>): Promise<OrderItem | undefined>;
+  getQuote(id: string): Promise<Quote | undefined>;
+  createQuote(quote: InsertQuote): Promise<Quote>;
+  getMaterials(): Promise<Material[]>;
+  getMaterial(id: string): Promise<Material | undefined>;
+  getPriceBooks(): Promise<PriceBook[]>;
+  getCurrentPriceBook(): Promise<PriceBook>;
+  createPriceBook(rules: PricingRules, note?: string): Promise<PriceBook>;
 }
 
 export class MemStorage implements IStorage {
   private orders: Map<string, Order>;
+  private orderItems: Map<string, OrderItem>;
+  private quotes: Map<string, Quote>;
+  private materials: Map<string, Material>;
+  private priceBooks: PriceBook[];
 
   constructor() {
     this.orders = new Map();
+    this.orderItems = new Map();
+    this.quotes = new Map();
+    this.materials = new Map(DEFAULT_MATERIALS.map((material) => [material.id, material]));
+    this.priceBooks = [{ version: 1, rules: DEFAULT_PRICING_RULES, note: "Initial prices", createdAt: new Date() }];
   }
 
   async getOrder(id: string): Promise<Order | undefined> {
     return this.orders.get(id);
   }
 
-  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+  async createOrder(insertOrder: InsertOrder, insertItems: InsertOrderItem[]): Promise<OrderWithItems> {
     const id = randomUUID();
     const now = new Date();
     const order: Order = {
@@ -31,19 +52,41 @@ export class MemStorage implements IStorage {
       city: insertOrder.city || null,
       state: insertOrder.state || null,
       zipCode: insertOrder.zipCode || null,
-      modelFileName: insertOrder.modelFileName || null,
-      modelWeight: insertOrder.modelWeight || null,
-      printTime: insertOrder.printTime || null,
-      baseCost: insertOrder.baseCost || null,
-      supportRemoval: insertOrder.supportRemoval || false,
-      supportCost: insertOrder.supportCost || "0.00",
       totalCost: insertOrder.totalCost || null,
       status: "pending",
       createdAt: now,
       updatedAt: now,
     };
+    const items = insertItems.map((insertItem): OrderItem => ({
+      id: randomUUID(),
+      orderId: id,
+      position: insertItem.position,
+      quoteId: insertItem.quoteId,
+      material: insertItem.material || "pla",
+      color: insertItem.color || null,
+      quality: insertItem.quality || "standard",
+      infill: insertItem.infill ?? null,
+      walls: insertItem.walls ?? null,
+      quantity: insertItem.quantity || 1,
+      modelFileName: insertItem.modelFileName,
+      modelFilePath: insertItem.modelFilePath,
+      modelUnits: insertItem.modelUnits || "mm",
+      modelScale: insertItem.modelScale || "100.00",
+      preSliced: insertItem.preSliced || false,
+      modelWeight: insertItem.modelWeight || null,
+      printTime: insertItem.printTime || null,
+      modelRepaired: insertItem.modelRepaired || false,
+      repairSummary: insertItem.repairSummary || null,
+      baseCost: insertItem.baseCost || null,
+      supportRemoval: insertItem.supportRemoval || false,
+      supportCost: insertItem.supportCost || "0.00",
+      totalCost: insertItem.totalCost,
+      thumbnailFileName: insertItem.thumbnailFileName || null,
+      gcodeFileName: null,
+    }));
     this.orders.set(id, order);
-    return order;
+    items.forEach((item) => this.orderItems.set(item.id, item));
+    return { ...order, items };
   }
 
   async updateOrder(id: string, updates: Partial<Order>): Promise<Order | undefined> {
@@ -65,6 +108,69 @@ export class MemStorage implements IStorage {
   async getAllOrders(): Promise<Order[]> {
     return Array.from(this.orders.values());
   }
+
+  // In the order the customer added them
+  async getOrderItems(orderId: string): Promise<OrderItem[]> {
+    return Array.from(this.orderItems.values())
+      .filter((item) => item.orderId === orderId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async getOrderItem(id: string): Promise<OrderItem | undefined> {
+    return this.orderItems.get(id);
+  }
+
+  async updateOrderItem(id: string, updates: Partial<OrderItem>): Promise<OrderItem | undefined> {
+    const existingItem = this.orderItems.get(id);
+    if (!existingItem) {
+      return undefined;
+    }
+    const updatedItem: OrderItem = { ...existingItem, ...updates };
+    this.orderItems.set(id, updatedItem);
+    return updatedItem;
+  }
+
+  async getQuote(id: string): Promise<Quote | undefined> {
+    return this.quotes.get(id);
+  }
+
+  async createQuote(insertQuote: InsertQuote): Promise<Quote> {
+    const quote: Quote = {
+      ...insertQuote,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.quotes.set(quote.id, quote);
+    return quote;
+  }
+
+  async getMaterials(): Promise<Material[]> {
+    return Array.from(this.materials.values());
+  }
+
+  async getMaterial(id: string): Promise<Material | undefined> {
+    return this.materials.get(id);
+  }
+
+  // Oldest first
+  async getPriceBooks(): Promise<PriceBook[]> {
+    return this.priceBooks.slice();
+  }
+
+  async getCurrentPriceBook(): Promise<PriceBook> {
+    return this.priceBooks[this.priceBooks.length - 1];
+  }
+
+  async createPriceBook(rules: PricingRules, note?: string): Promise<PriceBook> {
+    const priceBook: PriceBook = {
+      version: this.priceBooks[this.priceBooks.length - 1].version + 1,
+      rules,
+      note: note || null,
+      createdAt: new Date(),
+    };
+    this.priceBooks.push(priceBook);
+    return priceBook;
+  }
 }
 
 export const storage = new MemStorage();
@@ -0,0 +1,32 @@
+import type { MeshAnalysis } from "@shared/analysis";
+
+// Analyses shared by the pricing and quote tests
+
+// A 20 g part with 5 g of supports under 10 cm² of overhang, two hours to
+// print and four to a plate
+export function meshAnalysis(changes: Partial<MeshAnalysis> = {}): MeshAnalysis {
+  return {
+    kind: "mesh",
+    weight: 20,
+    printTime: "2h 0m",
+    printMinutes: 120,
+    layers: 100,
+    plate: { footprint: { x: 80, y: 80 }, copiesPerPlate: 4, sharedMinutes: 10 },
+    volume: 16,
+    dimensions: { x: 80, y: 80, z: 20 },
+    fit: { fits: true, placement: "as-is", upAxis: "z", rotation: 0, maxScale: 275, piecesNeeded: 1 },
+    surfaceArea: 50,
+    triangleCount: 12,
+    watertight: true,
+    shells: 1,
+    issues: [],
+    repair: { repaired: false, changes: [] },
+    thumbnailFile: "part.thumbnail.png",
+    orientation: { rotation: [1, 0, 0, 0, 1, 0, 0, 0, 1], candidates: [] },
+    supports: { needed: true, overhangAngle: 45, overhangArea: 10, volume: 4, weight: 5 },
+    scaling: { declaredUnits: false, units: "mm", scale: 100, sourceSize: { x: 80, y: 80, z: 20 }, plausible: true },
+    problemEdges: { open: [], nonManifold: [], truncated: false },
+    print: { quality: "standard", layerHeight: 0.2, walls: 2, infill: 20, shellVolume: 10, infillVolume: 6 },
+    ...changes,
+  };
+}
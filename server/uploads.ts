@@ -0,0 +1,48 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import type { UploadedFile } from "./analysis";
+
+export const UPLOAD_DIR = "uploads";
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+// An upload stored under the SHA-256 of its contents
+export interface StoredUpload extends UploadedFile {
+  hash: string;
+}
+
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+// Moves a multer upload to uploads/<sha256>. A file we already hold is
+// replaced by an identical copy, so repeat uploads take no extra space and
+// files derived from it (thumbnails, repaired meshes) are shared.
+export async function storeUpload(file: UploadedFile): Promise<StoredUpload> {
+  const hash = await hashFile(file.path);
+  const storedPath = path.join(UPLOAD_DIR, hash);
+  await fs.rename(file.path, storedPath);
+  return { path: storedPath, originalname: file.originalname, hash };
+}
+
+// A previously stored upload, or undefined if we don't have that content
+export async function findUpload(hash: string, originalname: string): Promise<StoredUpload | undefined> {
+  if (!SHA256_PATTERN.test(hash)) {
+    return undefined;
+  }
+  const storedPath = path.join(UPLOAD_DIR, hash);
+  try {
+    await fs.access(storedPath);
+  } catch {
+    return undefined;
+  }
+  return { path: storedPath, originalname, hash };
+}
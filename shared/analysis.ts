@@ -0,0 +1,254 @@
+import { z } from "zod";
+
+export const MODEL_UNITS = ["mm", "cm", "in", "m"] as const;
+export type ModelUnit = typeof MODEL_UNITS[number];
+
+export const MM_PER_UNIT: Record<ModelUnit, number> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  m: 1000,
+};
+
+export const QUALITY_PRESETS = ["draft", "standard", "fine"] as const;
+export type QualityPreset = typeof QUALITY_PRESETS[number];
+
+export interface QualitySettings {
+  name: string;
+  layerHeight: number; // mm
+  walls: number; // perimeter loops
+  topBottomLayers: number; // solid layers on top and bottom surfaces
+  infill: number; // percent
+}
+
+// What customers choose between; the slicer profiles in
+// server/print-profiles.ts are built from these
+export const QUALITY_SETTINGS: Record<QualityPreset, QualitySettings> = {
+  draft: { name: "Draft", layerHeight: 0.28, walls: 2, topBottomLayers: 3, infill: 15 },
+  standard: { name: "Standard", layerHeight: 0.2, walls: 2, topBottomLayers: 4, infill: 20 },
+  fine: { name: "Fine", layerHeight: 0.12, walls: 3, topBottomLayers: 6, infill: 20 },
+};
+
+// Tunable inputs to model analysis, sent alongside the uploaded file
+export const analysisOptionsSchema = z.object({
+  // Surfaces leaning further than this from vertical need support
+  overhangAngle: z.coerce.number().min(0).max(89).default(45),
+  // Unit the file's coordinates are in; ignored for 3MF, which declares its own
+  units: z.enum(MODEL_UNITS).default("mm"),
+  // Uniform scale applied after unit conversion, in percent
+  scale: z.coerce.number().min(1).max(10000).default(100),
+  // Material catalogue ID; its density is looked up by the server
+  material: z.string().min(1).default("pla"),
+  quality: z.enum(QUALITY_PRESETS).default("standard"),
+  // Overrides for the preset's infill (percent) and wall count
+  infill: z.coerce.number().int().min(0).max(100).optional(),
+  walls: z.coerce.number().int().min(1).max(10).optional(),
+});
+
+export type AnalysisOptions = z.infer<typeof analysisOptionsSchema>;
+
+// The preset with the customer's infill and wall overrides applied
+export function resolveQuality(options: Pick<AnalysisOptions, "quality" | "infill" | "walls">): QualitySettings {
+  const preset = QUALITY_SETTINGS[options.quality];
+  return { ...preset, infill: options.infill ?? preset.infill, walls: options.walls ?? preset.walls };
+}
+
+// What analysis needs to know about the chosen material
+export interface MaterialProperties {
+  density: number; // g/cm³
+}
+
+// Steps of an analysis job, reported to the client as it runs
+export const ANALYSIS_STAGES = ["parse", "repair", "orient", "slice", "price"] as const;
+export type AnalysisStage = typeof ANALYSIS_STAGES[number];
+
+export type AnalysisJobStatus = "queued" | "running" | "done" | "failed";
+
+// State of a queued analysis, as returned by /api/analyze-model/:jobId and
+// streamed from /api/analyze-model/:jobId/events
+export interface AnalysisJobState {
+  id: string;
+  status: AnalysisJobStatus;
+  stage?: AnalysisStage;
+  result?: ModelAnalysis;
+  error?: string;
+}
+
+export interface ModelDimensions {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Result of analysing an uploaded file, returned by /api/analyze-model and
+// rendered by the order form. Meshes are measured and sliced by us; G-code
+// has already been sliced by the customer and is only read back.
+export type ModelAnalysis = MeshAnalysis | GcodeAnalysis;
+
+interface AnalysisBase {
+  weight: number;
+  printTime: string;
+  printMinutes: number; // printTime as a number, for machine-time pricing
+  layers: number;
+  plate: PlateSummary;
+  volume: number; // cm³
+  dimensions: ModelDimensions; // mm
+  fit: FitCheck;
+}
+
+export interface MeshAnalysis extends AnalysisBase {
+  kind: "mesh";
+  surfaceArea: number; // cm²
+  triangleCount: number;
+  watertight: boolean;
+  shells: number;
+  issues: MeshIssue[];
+  repair: RepairSummary;
+  thumbnailFile: string; // rendered preview stored next to the upload
+  orientation: OrientationSummary;
+  supports: SupportSummary;
+  scaling: ScalingSummary;
+  problemEdges: ProblemEdges;
+  print: PrintSummary;
+}
+
+export interface GcodeAnalysis extends AnalysisBase {
+  kind: "gcode";
+  slicer?: string;
+  filamentLength: number; // mm
+  supportVolume: number; // cm³
+  supportWeight: number; // g
+  // What the slicer's summary comments claim, shown for reference only;
+  // weight, time and price come from simulating the moves
+  slicerEstimate: {
+    printTime?: string;
+    filamentLength?: number; // mm
+    weight?: number; // g
+  };
+}
+
+export type FitPlacement = "as-is" | "rotated" | "diagonal" | "too-large";
+
+// How the model can be placed inside the printer's build volume
+export interface FitCheck {
+  fits: boolean;
+  placement: FitPlacement;
+  // Axis of the model that points up and the turn about it, in degrees
+  upAxis: "x" | "y" | "z";
+  rotation: number;
+  // Largest uniform scale (percent) that still fits in one piece
+  maxScale: number;
+  // Pieces the model must be split into when printed at full size
+  piecesNeeded: number;
+}
+
+export type IssueSeverity = "info" | "warning" | "error";
+
+export type MeshIssueCode =
+  | "open-edges"
+  | "non-manifold-edges"
+  | "degenerate-faces"
+  | "inconsistent-winding"
+  | "inverted-normals"
+  | "self-intersections";
+
+// A problem found in the uploaded mesh that may make the quote unreliable
+export interface MeshIssue {
+  code: MeshIssueCode;
+  severity: IssueSeverity;
+  count: number;
+  message: string;
+}
+
+// Edges behind the open/non-manifold issues, for highlighting in the viewer.
+// Segments are flat [x1, y1, z1, x2, y2, z2, ...] lists in the uploaded
+// file's own coordinates; very broken meshes only list the first few thousand.
+export interface ProblemEdges {
+  open: number[];
+  nonManifold: number[];
+  truncated: boolean;
+}
+
+// Automatic fixes applied before quoting. When `repaired` is set, the price
+// is based on the repaired copy stored next to the original upload.
+export interface RepairSummary {
+  repaired: boolean;
+  changes: string[];
+  repairedFile?: string;
+}
+
+// How the file's coordinates were turned into millimetres. STL and OBJ have
+// no units, so a model whose size is implausible in the chosen unit comes
+// with a suggestion.
+export interface ScalingSummary {
+  declaredUnits: boolean; // the file states its unit (3MF)
+  units: ModelUnit;
+  scale: number; // percent
+  sourceSize: ModelDimensions; // bounding box in the file's own numbers
+  plausible: boolean;
+  suggestedUnit?: ModelUnit;
+}
+
+export interface PlateFootprint {
+  x: number; // mm
+  y: number; // mm
+}
+
+// How copies of the part share the build plate when several are ordered
+export interface PlateSummary {
+  footprint: PlateFootprint; // in the print orientation
+  copiesPerPlate: number;
+  // Print time spent once per plate however many copies it holds (layer changes)
+  sharedMinutes: number;
+}
+
+export function platesNeeded(plate: PlateSummary, quantity: number): number {
+  return Math.ceil(quantity / plate.copiesPerPlate);
+}
+
+// Print time for `quantity` copies: each copy's own tool paths, plus the
+// shared time once per plate
+export function batchPrintMinutes(analysis: ModelAnalysis, quantity: number): number {
+  const { sharedMinutes } = analysis.plate;
+  return quantity * (analysis.printMinutes - sharedMinutes) + platesNeeded(analysis.plate, quantity) * sharedMinutes;
+}
+
+export function formatPrintTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = Math.floor(minutes % 60);
+  return `${hours}h ${mins}m`;
+}
+
+// Plastic the part is printed with under the chosen quality settings. Weight
+// comes from these rather than the solid volume.
+export interface PrintSummary {
+  quality: QualityPreset;
+  layerHeight: number; // mm
+  walls: number;
+  infill: number; // percent
+  shellVolume: number; // cm³, walls plus solid top and bottom layers
+  infillVolume: number; // cm³, sparse interior at the infill density
+}
+
+export interface SupportSummary {
+  needed: boolean;
+  overhangAngle: number; // degrees from vertical
+  overhangArea: number; // cm²
+  volume: number; // cm³
+  weight: number; // g
+}
+
+export interface OrientationMetrics {
+  down: [number, number, number]; // model direction that faces the bed
+  supportVolume: number; // cm³
+  contactArea: number; // cm²
+  height: number; // mm
+  score: number; // lower is better
+}
+
+// Print orientation used for the quote. `rotation` is a row-major 3×3
+// matrix taking the uploaded model into print orientation.
+export interface OrientationSummary {
+  rotation: number[];
+  candidates: OrientationMetrics[];
+}
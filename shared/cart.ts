@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { insertOrderSchema, type OrderWithItems, type Quote } from "./schema";
+
+// Item IDs are chosen by the order form, so an item can be saved to the cart
+// again as its options change without waiting for the first save
+export const cartItemIdSchema = z.string().regex(/^[A-Za-z0-9-]{1,64}$/, "Invalid cart item ID");
+
+export const cartItemUpdateSchema = z.object({
+  quoteId: z.string().min(1, "A quote is required"),
+  color: z.string().min(1, "Please choose a colour"),
+});
+
+// The customer's details; the items come from the cart
+export const checkoutRequestSchema = insertOrderSchema.omit({ totalCost: true });
+
+// A model in the cart, stored in the customer's session. Its options and
+// price are those of the quote.
+export interface CartItem {
+  id: string;
+  quoteId: string;
+  color: string;
+  addedAt: string; // ISO timestamp
+}
+
+export interface CartItemWithQuote extends CartItem {
+  quote: Quote;
+}
+
+// Something checkout found had changed since the item was quoted
+export interface CartChange {
+  itemId: string;
+  fileName: string;
+  previousTotal: string; // dollars
+  newTotal?: string; // unset when the item was removed
+  reason?: string; // why the item was removed
+}
+
+// Checkout either places the order or, when prices or availability changed,
+// re-quotes the cart and returns what changed for the customer to confirm
+export type CheckoutResult =
+  | { order: OrderWithItems }
+  | { message: string; changes: CartChange[]; items: CartItemWithQuote[] };
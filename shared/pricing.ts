@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { analysisOptionsSchema } from "./analysis";
+
+const money = z.number().min(0); // dollars
+const code = z.string().regex(/^[a-z0-9_]+$/, "Codes may only contain lowercase letters, digits and underscores");
+
+// The price book: every rate the server prices quotes with besides each
+// material's price per gram, which lives in the materials catalogue. Admins
+// edit it as a whole and each save is stored as a new version.
+export const pricingRulesSchema = z.object({
+  machineHourRate: money, // per hour of print time
+  // Machine time added per build plate for heating, homing and clearing the bed
+  plateSetupMinutes: z.number().min(0),
+  setupFee: money, // once per quoted model, so once per order item
+  minimumCharge: money, // quotes below this are topped up to it
+  // Labour for cleaning off supports when the customer opts in. Meshes are
+  // charged by overhang area; customer-sliced G-code has no overhang data,
+  // only the support plastic itself.
+  supportRemoval: z.object({
+    baseFee: money,
+    perCm2: money, // of overhang area
+    perGram: money, // of support material
+  }),
+  // Optional finishing services offered on the order form
+  postProcessing: z.array(z.object({
+    code,
+    label: z.string().min(1),
+    perPart: money,
+    perCm2: money, // of surface area; G-code has none and is charged per part only
+  })),
+  // Faster turnaround options, charged as a share of each quote's subtotal
+  rush: z.array(z.object({
+    code,
+    label: z.string().min(1),
+    surchargePercent: z.number().min(0).max(500),
+    leadTimeDays: z.number().int().min(0),
+  })),
+  // Discounts on material, machine time and finishing once enough copies are ordered
+  quantityBreaks: z.array(z.object({
+    minQuantity: z.number().int().min(2),
+    discountPercent: z.number().min(0).max(100),
+  })),
+});
+
+export type PricingRules = z.infer<typeof pricingRulesSchema>;
+
+// Larger runs are quoted by hand
+export const MAX_QUANTITY = 500;
+
+// Everything a quote is priced from besides the file itself
+export const quoteOptionsSchema = analysisOptionsSchema.extend({
+  supportRemoval: z.boolean().default(false),
+  postProcessing: z.array(z.string()).default([]), // PricingRules postProcessing codes
+  rush: z.string().optional(), // a PricingRules rush code; standard turnaround when unset
+  quantity: z.coerce.number().int().min(1, "Order at least one copy").max(MAX_QUANTITY, `At most ${MAX_QUANTITY} copies per model`).default(1),
+});
+
+export type QuoteOptions = z.infer<typeof quoteOptionsSchema>;
+
+// Codes are "material", "machine_time", "support_removal",
+// "post_processing_<code>", "quantity_discount", "setup", "rush_<code>" and
+// "minimum_charge"
+export interface QuoteLineItem {
+  code: string;
+  label: string;
+  amount: number; // dollars, negative for discounts
+}
+
+export interface OrderPrice {
+  lineItems: QuoteLineItem[];
+  totalCost: number;
+}
+
+// Line item amounts as shown to customers, e.g. "$4.20" or "−$0.50"
+export function formatAmount(amount: number): string {
+  return `${amount < 0 ? "−" : ""}$${Math.abs(amount).toFixed(2)}`;
+}
@@ -0,0 +1,7 @@
+// The printer every quote is produced for. Dimensions are the usable build
+// envelope in millimetres.
+export const PRINTER = {
+  id: "ender3-s1-pro", // printer profile key, also used for material compatibility
+  name: "Creality Ender 3 S1 Pro",
+  buildVolume: { x: 220, y: 220, z: 270 },
+};
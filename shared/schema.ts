@@ -1,7 +1,59 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, boolean, integer, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { ModelAnalysis } from "./analysis";
+import type { PricingRules, QuoteLineItem, QuoteOptions } from "./pricing";
+
+export interface MaterialColor {
+  name: string;
+  hex: string; // swatch colour, #rrggbb
+}
+
+// Filaments we offer. IDs double as print profile keys in server/print-profiles.ts.
+export const materials = pgTable("materials", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  density: decimal("density", { precision: 5, scale: 3 }).notNull(), // g/cm³
+  pricePerGram: decimal("price_per_gram", { precision: 10, scale: 4 }).notNull(), // dollars
+  colors: jsonb("colors").$type<MaterialColor[]>().notNull(),
+  inStock: boolean("in_stock").notNull().default(true),
+  compatiblePrinters: jsonb("compatible_printers").$type<string[]>().notNull(), // printer profile keys
+});
+
+export type Material = typeof materials.$inferSelect;
+
+// Versions of the pricing rules. Saved rules are never changed, so a quote
+// can always be traced to the rules it was priced with; the highest version
+// prices new quotes.
+export const priceBooks = pgTable("price_books", {
+  version: integer("version").primaryKey(),
+  rules: jsonb("rules").$type<PricingRules>().notNull(),
+  note: text("note"), // what the admin changed
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type PriceBook = typeof priceBooks.$inferSelect;
+
+// A priced model, fixed at the time it was quoted so orders and shared links
+// keep showing what the customer was offered even after prices change
+export const quotes = pgTable("quotes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fileHash: text("file_hash").notNull(), // SHA-256 of the stored upload
+  modelFileName: text("model_file_name").notNull(),
+  options: jsonb("options").$type<QuoteOptions>().notNull(),
+  analysis: jsonb("analysis").$type<ModelAnalysis>().notNull(), // pricing inputs
+  lineItems: jsonb("line_items").$type<QuoteLineItem[]>().notNull(),
+  totalCost: decimal("total_cost", { precision: 10, scale: 2 }).notNull(),
+  priceBookVersion: integer("price_book_version").notNull(), // price_books.version
+  signature: text("signature").notNull(), // HMAC over the priced content
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export type InsertQuote = Omit<typeof quotes.$inferInsert, "id" | "createdAt">;
+export type Quote = typeof quotes.$inferSelect;
 
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -12,16 +64,43 @@ export const orders = pgTable("orders", {
   city: text("city"),
   state: text("state"),
   zipCode: text("zip_code"),
-  modelFileName: text("model_file_name"),
+  totalCost: decimal("total_cost", { precision: 10, scale: 2 }), // sum of the items
+  status: text("status").default("pending"), // 'pending', 'confirmed', 'in_progress', 'completed'
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Most models one order may contain
+export const MAX_ORDER_ITEMS = 20;
+
+// One model in an order, with the options and price of the quote it was
+// ordered from
+export const orderItems = pgTable("order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  position: integer("position").notNull(), // order the customer added the files in
+  quoteId: varchar("quote_id").notNull(),
+  material: text("material").default("pla"), // materials.id
+  color: text("color"), // one of the material's colour names
+  quality: text("quality").default("standard"), // 'draft', 'standard' or 'fine'
+  infill: integer("infill"), // percent
+  walls: integer("walls"),
+  quantity: integer("quantity").notNull().default(1), // copies of the model
+  modelFileName: text("model_file_name").notNull(),
+  modelFilePath: text("model_file_path").notNull(), // stored upload, relative to the server root
+  modelUnits: text("model_units").default("mm"), // 'mm', 'cm', 'in' or 'm'
+  modelScale: decimal("model_scale", { precision: 10, scale: 2 }).default("100.00"), // percent
+  preSliced: boolean("pre_sliced").default(false), // customer sent G-code; print without reslicing
   modelWeight: decimal("model_weight", { precision: 10, scale: 2 }),
-  printTime: text("print_time"),
+  printTime: text("print_time"), // for all copies
+  modelRepaired: boolean("model_repaired").default(false),
+  repairSummary: text("repair_summary"),
   baseCost: decimal("base_cost", { precision: 10, scale: 2 }),
   supportRemoval: boolean("support_removal").default(false),
   supportCost: decimal("support_cost", { precision: 10, scale: 2 }).default("0.00"),
-  totalCost: decimal("total_cost", { precision: 10, scale: 2 }),
-  status: text("status").default("pending"), // 'pending', 'confirmed', 'in_progress', 'completed'
-  createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
+  totalCost: decimal("total_cost", { precision: 10, scale: 2 }).notNull(),
+  thumbnailFileName: text("thumbnail_file_name"), // rendered preview next to the upload
+  gcodeFileName: text("gcode_file_name"), // G-code generated for the print queue
 });
 
 export const insertOrderSchema = createInsertSchema(orders, {
@@ -32,18 +111,26 @@ export const insertOrderSchema = createInsertSchema(orders, {
   city: z.string().optional(),
   state: z.string().optional(),
   zipCode: z.string().optional(),
-  modelFileName: z.string().optional(),
-  modelWeight: z.string().optional(),
-  printTime: z.string().optional(),
-  baseCost: z.string().optional(),
-  supportRemoval: z.boolean().default(false),
-  supportCost: z.string().default("0.00"),
   totalCost: z.string().optional(),
 }).omit({
   id: true,
+  status: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// What the order form sends: the customer's details and, for each model, the
+// quote it was priced by and the colour to print it in. Everything else about
+// an item comes from its quote.
+export const orderRequestSchema = insertOrderSchema.omit({ totalCost: true }).extend({
+  items: z.array(z.object({
+    quoteId: z.string().min(1, "A quote is required"),
+    color: z.string().min(1, "Please choose a colour"),
+  })).min(1, "Add at least one model").max(MAX_ORDER_ITEMS, `At most ${MAX_ORDER_ITEMS} models per order`),
+});
+
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
+export type InsertOrderItem = Omit<typeof orderItems.$inferInsert, "id" | "orderId" | "gcodeFileName">;
+export type OrderItem = typeof orderItems.$inferSelect;
+export type OrderWithItems = Order & { items: OrderItem[] };